@@ -1,10 +1,19 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { Mic, FileAudio, Video, Layers, Wand2, AlertCircle, Upload, FileText, Trash2, CheckCircle, Download, Loader2, Music, Settings, Play, MessageSquare, Sparkles, Sun, Moon, Merge } from 'lucide-react';
-import { ProjectState, AudioClip, Beat, LayoutMode, OverlayType, StyleSettings, ScriptBlock, VideoComment, ChatSession } from './types';
+import { Mic, FileAudio, Video, Layers, Wand2, AlertCircle, Upload, FileText, Trash2, CheckCircle, Download, Loader2, Music, Settings, Play, MessageSquare, Sparkles, Sun, Moon, Merge, Package, LayoutGrid, Undo2, Redo2, History, Bookmark, Captions, ListVideo, Type } from 'lucide-react';
+import { ProjectState, ProjectSummary, ProjectSnapshot, ExportSettings, CaptionSettings, AudioClip, Beat, LayoutMode, OverlayType, StyleSettings, ScriptBlock, VideoComment, ChatSession, TimeRange, TextOverlay, TextOverlayKind } from './types';
 import { generateSpeech, analyzeBeats, generateBRollImage, generateVeoVideo, analyzeAudioContent, VeoConfig } from './services/geminiService';
 import { extractAudioFromVideo, mergeAudioClips } from './utils/audioUtils';
-import { renderVideoToBlob } from './utils/renderUtils';
+import { EXPORT_FORMATS, formatRange } from './utils/renderUtils';
+import { LAYOUT_MODES, LAYOUT_ASPECTS, getBRollAreaRatio, getBRollAspectRatio } from './utils/layoutModes';
+import { createBRollClip, probeClip } from './utils/brollClips';
+import { scaleKeyframes } from './utils/keyframes';
+import { scaleSlideshow } from './utils/slideshow';
+import { createTextOverlay } from './utils/textOverlays';
+import { createExportSettings, resolveExportPreset } from './utils/exportPresets';
+import { createCaptionSettings } from './utils/captions';
+import { createBrandKit } from './utils/brandKit';
+import { exportProjectBundle, importProjectBundle, BUNDLE_EXTENSION } from './utils/projectBundle';
 import { AudioPlayer } from './components/AudioPlayer';
 import { VideoComposer } from './components/VideoComposer';
 import { Timeline } from './components/Timeline';
@@ -13,12 +22,24 @@ import { ScriptEditor, ScriptEditorRef } from './components/ScriptEditor';
 import { ThemeTransition } from './components/ThemeTransition';
 import { GenerateVideoModal } from './components/GenerateVideoModal';
 import { AIEditorPanel } from './components/AIEditorPanel';
-
-const INITIAL_TEXT = "Is code more important or is content more important for a 17 year old? I'm of the belief that if you can do it, learn how to code. Because see, content, you can always pick up even after you learn how to code.";
-
-const INITIAL_STATE: ProjectState = {
-  textContent: INITIAL_TEXT,
-  scriptBlocks: [{ id: 'block-init', content: INITIAL_TEXT, align: 'left', type: 'p' }],
+import { RestoreSessionModal } from './components/RestoreSessionModal';
+import { ProjectLibrary } from './components/ProjectLibrary';
+import { listProjects, createProject, saveProject, loadProject, renameProject, duplicateProject, deleteProject, pruneOrphanMedia, createSnapshot, listSnapshots, deleteSnapshot, getInterruptedProjectId, markSessionActive, markSessionClosed } from './services/projectStorage';
+import { createPosterThumbnail, getPosterKey } from './utils/thumbnailUtils';
+import { CURRENT_SCHEMA_VERSION } from './utils/projectSchema';
+import { useUndoableState } from './hooks/useUndoableState';
+import { useRenderQueue, RenderJob } from './hooks/useRenderQueue';
+import { HistoryPanel } from './components/HistoryPanel';
+import { SnapshotsPanel } from './components/SnapshotsPanel';
+import { ExportDialog } from './components/ExportDialog';
+import { CaptionSettingsPanel } from './components/CaptionSettingsPanel';
+import { TextOverlayPanel } from './components/TextOverlayPanel';
+import { RenderQueuePanel } from './components/RenderQueuePanel';
+
+const createProjectState = (): ProjectState => ({
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  textContent: "",
+  scriptBlocks: [{ id: `block-${Date.now()}`, content: "", align: 'left', type: 'p' }],
   videoTranscript: "",
   audioClips: [],
   selectedAudioIds: [],
@@ -30,8 +51,12 @@ const INITIAL_STATE: ProjectState = {
       themePrompt: "",
       imageCount: 1,
       referenceImage: undefined,
-      avatarImage: undefined
+      avatarImage: undefined,
+      brandKit: createBrandKit()
   },
+  exportSettings: createExportSettings(),
+  captionSettings: createCaptionSettings(),
+  textOverlays: [],
   videoComments: [],
   chatSessions: [{
       id: 'default-session',
@@ -40,16 +65,34 @@ const INITIAL_STATE: ProjectState = {
       lastUpdated: Date.now()
   }],
   currentChatSessionId: 'default-session'
-};
+});
+
+const AUTOSAVE_DELAY_MS = 1000;
+
+// Session-level fields that undo/redo must not roll back
+const preserveSessionFields = (restored: ProjectState, current: ProjectState): ProjectState => ({
+  ...restored,
+  isGeneratingVideo: current.isGeneratingVideo,
+  chatSessions: current.chatSessions,
+  currentChatSessionId: current.currentChatSessionId
+});
 
 export const App: React.FC = () => {
-  const [state, setState] = useState<ProjectState>(INITIAL_STATE);
+  const history = useUndoableState<ProjectState>(createProjectState, { preserve: preserveSessionFields });
+  const { state, setState, setTransient, startGroup, endGroup } = history;
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isSnapshotsOpen, setIsSnapshotsOpen] = useState(false);
+  const [snapshots, setSnapshots] = useState<ProjectSnapshot[]>([]);
+  const [isSnapshotsLoading, setIsSnapshotsLoading] = useState(false);
   const [status, setStatus] = useState<string>("");
   const [error, setError] = useState<string | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [isGeneratingTTS, setIsGeneratingTTS] = useState(false);
-  const [isExporting, setIsExporting] = useState(false);
-  const [exportProgress, setExportProgress] = useState(0);
+  const [isRenderQueueOpen, setIsRenderQueueOpen] = useState(false);
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
+  const [isCaptionPanelOpen, setIsCaptionPanelOpen] = useState(false);
+  const [isTextPanelOpen, setIsTextPanelOpen] = useState(false);
+  const [generatingClipIds, setGeneratingClipIds] = useState<Set<string>>(new Set());
   const [isCollabOpen, setIsCollabOpen] = useState(false);
   const [isGenerateModalOpen, setIsGenerateModalOpen] = useState(false);
   
@@ -73,6 +116,305 @@ export const App: React.FC = () => {
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
+  // In/out points on the scrubber; editor-only, not saved with the project
+  const [inPoint, setInPoint] = useState<number | null>(null);
+  const [outPoint, setOutPoint] = useState<number | null>(null);
+
+  // Project Library / Persistence State
+  const [activeProject, setActiveProject] = useState<ProjectSummary | null>(null);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [isLibraryLoading, setIsLibraryLoading] = useState(true);
+  const [recovered, setRecovered] = useState<{ project: ProjectSummary; state: ProjectState } | null>(null);
+  const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
+  // Read once before the marker for this session is written
+  const [interruptedProjectId] = useState(() => getInterruptedProjectId());
+  const latestStateRef = useRef(state);
+  latestStateRef.current = state;
+  const activeProjectRef = useRef(activeProject);
+  activeProjectRef.current = activeProject;
+  // The state as last loaded/saved, so opening a project doesn't immediately re-save it
+  const persistedStateRef = useRef<ProjectState | null>(null);
+  const thumbnailSourceRef = useRef<string | undefined>(undefined);
+
+  // --- Persistence ---
+  const savingStateRef = useRef<ProjectState | null>(null); // The state an immediate flush is writing
+
+  const hasPendingSave = () => !!activeProjectRef.current && latestStateRef.current !== persistedStateRef.current;
+
+  // Writes the latest state straight away, skipping the debounce and the poster thumbnail
+  const flushPendingSave = () => {
+      const project = activeProjectRef.current;
+      const snapshot = latestStateRef.current;
+      if (!project || !hasPendingSave() || savingStateRef.current === snapshot) return;
+      savingStateRef.current = snapshot;
+      saveProject(project.id, snapshot)
+          .then(summary => {
+              persistedStateRef.current = snapshot;
+              setLastSavedAt(summary.updatedAt);
+          })
+          .catch(e => console.error("Saving before leaving failed:", e))
+          .finally(() => {
+              if (savingStateRef.current === snapshot) savingStateRef.current = null;
+          });
+  };
+
+  const refreshProjects = async () => {
+      setIsLibraryLoading(true);
+      try {
+          setProjects(await listProjects());
+      } catch (e: any) {
+          console.error("Failed to list projects:", e);
+          setError("Could not load projects. " + e.message);
+      } finally {
+          setIsLibraryLoading(false);
+      }
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const init = async () => {
+      await refreshProjects();
+      if (interruptedProjectId) {
+        const [saved, summaries] = await Promise.all([loadProject(interruptedProjectId), listProjects()]);
+        const summary = summaries.find(p => p.id === interruptedProjectId);
+        if (!cancelled && saved && summary) setRecovered({ project: summary, state: saved });
+      }
+    };
+    init()
+      .catch(e => console.error("Failed to restore projects:", e))
+      .finally(() => {
+        pruneOrphanMedia().catch(e => console.warn("Media cleanup failed:", e));
+      });
+
+    // The page is still alive while hidden, so an edit waiting on the autosave debounce is written out
+    // now rather than racing the unload (the browser doesn't wait for IndexedDB on beforeunload)
+    const handleHidden = () => {
+      if (document.visibilityState === 'hidden') flushPendingSave();
+    };
+    // A session with an unsaved edit isn't a clean exit; keeping the marker brings up recovery next time
+    const handleUnload = () => {
+      flushPendingSave();
+      if (!hasPendingSave()) markSessionClosed();
+    };
+    document.addEventListener('visibilitychange', handleHidden);
+    window.addEventListener('pagehide', flushPendingSave);
+    window.addEventListener('beforeunload', handleUnload);
+
+    return () => {
+      cancelled = true;
+      document.removeEventListener('visibilitychange', handleHidden);
+      window.removeEventListener('pagehide', flushPendingSave);
+      window.removeEventListener('beforeunload', handleUnload);
+    };
+  }, []);
+
+  const persistActiveProject = async (projectId: string, snapshot: ProjectState) => {
+      const posterKey = getPosterKey(snapshot);
+      let thumbnail: string | undefined;
+      if (posterKey && posterKey !== thumbnailSourceRef.current) {
+          thumbnail = await createPosterThumbnail(snapshot);
+          thumbnailSourceRef.current = posterKey;
+      }
+      const summary = await saveProject(projectId, snapshot, thumbnail);
+      persistedStateRef.current = snapshot;
+      setLastSavedAt(summary.updatedAt);
+      setActiveProject(prev => prev && prev.id === projectId ? summary : prev);
+  };
+
+  useEffect(() => {
+    if (!activeProject || state === persistedStateRef.current) return;
+    const projectId = activeProject.id;
+    const handle = setTimeout(() => {
+      persistActiveProject(projectId, state).catch(e => console.error("Autosave failed:", e));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(handle);
+  }, [state, activeProject?.id]);
+
+  const resetEditorView = () => {
+      if (videoRef.current) videoRef.current.pause();
+      setIsPlaying(false);
+      setCurrentTime(0);
+      setDuration(0);
+      setInPoint(null);
+      setOutPoint(null);
+      setStatus("");
+      setError(null);
+  };
+
+  const enterProject = (project: ProjectSummary, projectState: ProjectState) => {
+      resetEditorView();
+      persistedStateRef.current = projectState;
+      thumbnailSourceRef.current = getPosterKey(projectState);
+      history.reset(projectState);
+      setActiveProject(project);
+      setLastSavedAt(project.updatedAt);
+      markSessionActive(project.id);
+  };
+
+  const handleOpenProject = async (id: string) => {
+      try {
+          const loaded = await loadProject(id);
+          const summary = projects.find(p => p.id === id);
+          if (!loaded || !summary) throw new Error("Project not found");
+          enterProject(summary, loaded);
+      } catch (e: any) {
+          setError("Failed to open project. " + e.message);
+      }
+  };
+
+  const handleCreateProject = async (name: string) => {
+      try {
+          const initial = createProjectState();
+          const summary = await createProject(name, initial);
+          enterProject(summary, initial);
+      } catch (e: any) {
+          setError("Failed to create project. " + e.message);
+      }
+  };
+
+  const handleCloseProject = async () => {
+      const project = activeProject;
+      if (!project) return;
+      resetEditorView();
+      try {
+          if (state !== persistedStateRef.current) {
+              await persistActiveProject(project.id, state);
+          }
+      } catch (e) {
+          console.error("Failed to save project before closing:", e);
+      }
+      markSessionClosed();
+      setActiveProject(null);
+      await refreshProjects();
+  };
+
+  const handleDuplicateProject = async (id: string) => {
+      try {
+          await duplicateProject(id);
+          await refreshProjects();
+      } catch (e: any) {
+          setError("Failed to duplicate project. " + e.message);
+      }
+  };
+
+  const handleRenameProject = async (id: string, name: string) => {
+      try {
+          await renameProject(id, name);
+          await refreshProjects();
+      } catch (e: any) {
+          setError("Failed to rename project. " + e.message);
+      }
+  };
+
+  const handleDeleteProject = async (id: string) => {
+      try {
+          await deleteProject(id);
+          await refreshProjects();
+      } catch (e: any) {
+          setError("Failed to delete project. " + e.message);
+      }
+  };
+
+  // --- Snapshot Handlers ---
+  const refreshSnapshots = async (projectId: string) => {
+      setIsSnapshotsLoading(true);
+      try {
+          setSnapshots(await listSnapshots(projectId));
+      } catch (e: any) {
+          setError("Failed to load snapshots. " + e.message);
+      } finally {
+          setIsSnapshotsLoading(false);
+      }
+  };
+
+  const handleOpenSnapshots = () => {
+      if (!activeProject) return;
+      setIsSnapshotsOpen(true);
+      refreshSnapshots(activeProject.id);
+  };
+
+  const handleCreateSnapshot = async (name: string) => {
+      if (!activeProject) return;
+      const label = name.trim() || `Snapshot ${new Date().toLocaleString()}`;
+      try {
+          await createSnapshot(activeProject.id, label, state);
+          await refreshSnapshots(activeProject.id);
+          setStatus(`Saved snapshot "${label}".`);
+      } catch (e: any) {
+          setError("Failed to save snapshot. " + e.message);
+      }
+  };
+
+  const handleRestoreSnapshot = (snapshot: ProjectSnapshot) => {
+      // Goes through history so a restore can itself be undone
+      setState(prev => preserveSessionFields(snapshot.state, prev), `Restore "${snapshot.name}"`);
+      setIsSnapshotsOpen(false);
+      setStatus(`Restored snapshot "${snapshot.name}".`);
+  };
+
+  const handleForkSnapshot = async (snapshot: ProjectSnapshot) => {
+      const project = activeProject;
+      if (!project) return;
+      try {
+          if (state !== persistedStateRef.current) {
+              await persistActiveProject(project.id, state);
+          }
+          const forked = { ...snapshot.state, isGeneratingVideo: false };
+          const summary = await createProject(`${project.name} – ${snapshot.name}`, forked);
+          setIsSnapshotsOpen(false);
+          enterProject(summary, forked);
+          setStatus(`Forked "${snapshot.name}" into a new project.`);
+      } catch (e: any) {
+          setError("Failed to fork snapshot. " + e.message);
+      }
+  };
+
+  const handleDeleteSnapshot = async (id: string) => {
+      if (!activeProject) return;
+      try {
+          await deleteSnapshot(id);
+          await refreshSnapshots(activeProject.id);
+      } catch (e: any) {
+          setError("Failed to delete snapshot. " + e.message);
+      }
+  };
+
+  const handleRestoreSession = () => {
+      if (recovered) {
+          enterProject(recovered.project, recovered.state);
+          setStatus("Previous session restored.");
+      }
+      setRecovered(null);
+  };
+
+  const handleDiscardSession = () => {
+      setRecovered(null);
+      markSessionClosed();
+  };
+
+  // --- Undo / Redo ---
+  useEffect(() => {
+    if (!activeProject) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key !== 'z' && key !== 'y') return;
+
+      // Text fields keep their native undo
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || target.tagName === 'INPUT' || target.tagName === 'TEXTAREA')) return;
+
+      e.preventDefault();
+      if (key === 'y' || e.shiftKey) {
+        history.redo();
+      } else {
+        history.undo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [activeProject, history.undo, history.redo]);
 
   // --- Theme Handlers ---
   const handleThemeToggle = () => {
@@ -158,14 +500,14 @@ export const App: React.FC = () => {
       setState(prev => ({
           ...prev,
           videoComments: [...prev.videoComments, newComment]
-      }));
+      }), "Add note");
   };
 
   const handleDeleteVideoComment = (id: string) => {
       setState(prev => ({
           ...prev,
           videoComments: prev.videoComments.filter(c => c.id !== id)
-      }));
+      }), "Delete note");
   };
 
   const handleReplyVideoComment = (commentId: string, text: string) => {
@@ -185,7 +527,7 @@ export const App: React.FC = () => {
               }
               return c;
           })
-      }));
+      }), "Reply to note");
   };
 
   const handleResolveVideoComment = (id: string) => {
@@ -194,7 +536,7 @@ export const App: React.FC = () => {
           videoComments: prev.videoComments.map(c => 
               c.id === id ? { ...c, isResolved: !c.isResolved } : c
           )
-      }));
+      }), "Resolve note");
   };
 
   // --- Chat Session Handlers ---
@@ -206,7 +548,7 @@ export const App: React.FC = () => {
           messages: [],
           lastUpdated: Date.now()
       };
-      setState(prev => ({
+      setTransient(prev => ({
           ...prev,
           chatSessions: [...prev.chatSessions, newSession],
           currentChatSessionId: newId
@@ -216,18 +558,18 @@ export const App: React.FC = () => {
   };
 
   const handleUpdateSession = (session: ChatSession) => {
-      setState(prev => ({
+      setTransient(prev => ({
           ...prev,
           chatSessions: prev.chatSessions.map(s => s.id === session.id ? session : s)
       }));
   };
 
   const handleSwitchSession = (id: string) => {
-      setState(prev => ({ ...prev, currentChatSessionId: id }));
+      setTransient(prev => ({ ...prev, currentChatSessionId: id }));
   };
 
   const handleDeleteSession = (id: string) => {
-      setState(prev => {
+      setTransient(prev => {
           const newSessions = prev.chatSessions.filter(s => s.id !== id);
           // If we deleted active session, switch to another or create new
           let newCurrentId = prev.currentChatSessionId;
@@ -259,55 +601,152 @@ export const App: React.FC = () => {
   };
 
 
-  // --- Export Handler ---
-  const handleExportVideo = async () => {
-      if (!state.aRollVideoUrl) return;
-      
-      setIsExporting(true);
-      setExportProgress(0);
-      
-      // Pause preview during export
-      if (videoRef.current) {
-          videoRef.current.pause();
-          setIsPlaying(false);
+  // --- Export Handlers ---
+  const handleRenderJobFinished = (job: RenderJob) => {
+      if (job.status === 'done' && job.output) {
+          const requested = job.options.format;
+          setStatus(!requested || job.output.format === requested
+              ? `Export ready: ${job.label}`
+              : `Export ready: ${job.label}, as ${EXPORT_FORMATS[job.output.format].label} (this browser can't encode ${EXPORT_FORMATS[requested].label}).`);
+      } else if (job.status === 'failed') {
+          setError(`Failed to export ${job.label}. ${job.error ?? ""}`);
       }
+  };
+
+  const renderQueue = useRenderQueue({ onJobFinished: handleRenderJobFinished });
+
+  // Either point falls back to the start or end of the video, so setting just one still selects something
+  const selection: TimeRange | null = inPoint === null && outPoint === null ? null : {
+      start: inPoint ?? 0,
+      end: outPoint ?? duration
+  };
+  const validSelection = selection && selection.end > selection.start ? selection : null;
+
+  // Setting a point past the other one drops the other, rather than leaving an inverted range
+  const handleSetInPoint = (time: number) => {
+      setInPoint(time);
+      if (outPoint !== null && outPoint <= time) setOutPoint(null);
+  };
+
+  const handleSetOutPoint = (time: number) => {
+      setOutPoint(time);
+      if (inPoint !== null && inPoint >= time) setInPoint(null);
+  };
+
+  const handleClearSelection = () => {
+      setInPoint(null);
+      setOutPoint(null);
+  };
+
+  // Queued exports render the state as it is now, so editing can carry on while they run.
+  // A range renders only that part of the A-roll; beats and captions keep their project timing.
+  const enqueueExport = (labelParts: string[], range?: TimeRange, layoutMode = state.layoutMode) => {
+      if (!state.aRollVideoUrl) return;
+
+      const { format } = state.exportSettings;
+      const preset = resolveExportPreset(state.exportSettings);
+      renderQueue.enqueue({
+          label: [...labelParts, preset.name, format.toUpperCase()].join(' · '),
+          sourceUrl: state.aRollVideoUrl,
+          scene: { ...state, layoutMode, brandKit: state.styleSettings.brandKit },
+          options: { format, resolution: preset.resolution, fps: preset.fps, videoBitrate: preset.videoBitrate, range }
+      });
+      setIsRenderQueueOpen(true);
+  };
+
+  const handleExportVideo = (range: TimeRange | null) => {
+      setIsExportDialogOpen(false);
+      enqueueExport(range ? [formatRange(range)] : [], range ?? undefined);
+  };
+
+  // One job per layout; each renders with that layout's per-beat overrides
+  const handlePublishPack = (range: TimeRange | null) => {
+      setIsExportDialogOpen(false);
+      state.exportSettings.publishFormats.forEach(layoutMode => {
+          enqueueExport(range ? [layoutMode, formatRange(range)] : [layoutMode], range ?? undefined, layoutMode);
+      });
+  };
+
+  const handleRenderBeat = (beat: Beat) => {
+      const index = state.beats.findIndex(b => b.id === beat.id);
+      enqueueExport([`Beat ${index + 1}`], { start: beat.startTime, end: beat.endTime });
+  };
+
+  const handleExportSettingsChange = (exportSettings: ExportSettings) => {
+      setState(prev => ({ ...prev, exportSettings }), "Change export settings");
+  };
+
+  const updateCaptionSettings = (settings: Partial<CaptionSettings>) => {
+      setState(prev => ({ ...prev, captionSettings: { ...prev.captionSettings, ...settings } }), "Edit captions");
+  };
+
+  // --- Text Overlay Handlers ---
+  const handleAddTextOverlay = (kind: TextOverlayKind) => {
+      const beat = state.beats.find(b => currentTime >= b.startTime && currentTime < b.endTime);
+      const overlay = createTextOverlay(kind, currentTime, beat);
+      setState(prev => ({ ...prev, textOverlays: [...prev.textOverlays, overlay] }), "Add text overlay");
+      return overlay.id;
+  };
+
+  const handleUpdateTextOverlay = (id: string, updates: Partial<TextOverlay>) => {
+      setState(prev => ({
+          ...prev,
+          textOverlays: prev.textOverlays.map(o => o.id === id ? { ...o, ...updates } : o)
+      }), "Edit text overlay");
+  };
 
+  const handleRemoveTextOverlay = (id: string) => {
+      setState(prev => ({ ...prev, textOverlays: prev.textOverlays.filter(o => o.id !== id) }), "Delete text overlay");
+  };
+
+  // --- Project Bundle Handlers ---
+  const handleExportBundle = async () => {
+      setStatus("Packaging project...");
+      setError(null);
       try {
-          const blob = await renderVideoToBlob(
-              state.aRollVideoUrl,
-              state.beats,
-              state.layoutMode,
-              (p) => setExportProgress(Math.round(p * 100))
-          );
-          
+          const blob = await exportProjectBundle(state);
           const url = URL.createObjectURL(blob);
           const a = document.createElement('a');
           a.href = url;
-          a.download = `remix-video-${Date.now()}.webm`;
+          a.download = `remix-project-${Date.now()}${BUNDLE_EXTENSION}`;
           document.body.appendChild(a);
           a.click();
           document.body.removeChild(a);
-          
-          setStatus("Video exported successfully!");
+          URL.revokeObjectURL(url);
+          setStatus("Project bundle exported.");
       } catch (e: any) {
-          console.error("Export failed:", e);
-          setError("Failed to export video. " + e.message);
-      } finally {
-          setIsExporting(false);
-          setExportProgress(0);
+          console.error("Bundle export failed:", e);
+          setError("Failed to export project. " + e.message);
+          setStatus("");
+      }
+  };
+
+  const handleImportBundle = async (file: File) => {
+      setStatus("Importing project...");
+      setError(null);
+      try {
+          const imported = await importProjectBundle(file);
+          const name = file.name.endsWith(BUNDLE_EXTENSION) ? file.name.slice(0, -BUNDLE_EXTENSION.length) : file.name;
+          const summary = await createProject(name, imported);
+          enterProject(summary, imported);
+          setStatus("Project imported.");
+      } catch (e: any) {
+          console.error("Bundle import failed:", e);
+          setError("Failed to import project. " + e.message);
+          setStatus("");
       }
   };
 
   // --- State Handlers ---
   const handleScriptChange = (blocks: ScriptBlock[]) => {
-      setState(prev => ({ ...prev, scriptBlocks: blocks }));
+      setState(prev => ({ ...prev, scriptBlocks: blocks }), "Edit script");
   };
 
   const updateStyleSettings = (settings: Partial<StyleSettings>) => {
       setState(prev => ({
           ...prev,
           styleSettings: { ...prev.styleSettings, ...settings }
-      }));
+      }), "Edit style settings");
   };
 
   const handleGenerateSpeech = async (textToSpeak?: string) => {
@@ -331,7 +770,7 @@ export const App: React.FC = () => {
         ...prev,
         audioClips: [newClip, ...prev.audioClips],
         selectedAudioIds: [newClip.id]
-      }));
+      }), "Generate speech");
       setStatus("Speech generated!");
     } catch (e: any) {
       setError(e.message || "Failed to generate speech");
@@ -345,11 +784,11 @@ export const App: React.FC = () => {
           ...prev,
           audioClips: prev.audioClips.filter(c => c.id !== id),
           selectedAudioIds: prev.selectedAudioIds.filter(sid => sid !== id)
-      }));
+      }), "Delete audio clip");
   };
 
   const handleAudioSelect = (id: string) => {
-      setState(prev => {
+      setTransient(prev => {
           const isSelected = prev.selectedAudioIds.includes(id);
           const newSelection = isSelected 
              ? prev.selectedAudioIds.filter(mid => mid !== id)
@@ -383,7 +822,7 @@ export const App: React.FC = () => {
               ...prev,
               audioClips: [newClip, ...prev.audioClips],
               selectedAudioIds: [newClip.id] 
-          }));
+          }), "Merge audio");
           setStatus("Audio merged successfully!");
       } catch (e: any) {
           setError("Failed to merge audio: " + e.message);
@@ -413,7 +852,7 @@ export const App: React.FC = () => {
         return b;
       });
 
-      setState(prev => ({ ...prev, beats: updatedBeats }));
+      setState(prev => ({ ...prev, beats: updatedBeats }), "Analyze beats");
       setStatus("Analysis complete. Review beats and generate images.");
       
     } catch (e: any) {
@@ -436,7 +875,8 @@ export const App: React.FC = () => {
          return;
      }
 
-     setState(prev => ({ ...prev, isGeneratingVideo: true, layoutMode: config.aspectRatio === '9:16' ? LayoutMode.PORTRAIT : LayoutMode.LANDSCAPE }));
+     const group = startGroup("Generate A-roll video");
+     setState(prev => ({ ...prev, isGeneratingVideo: true, layoutMode: config.aspectRatio === '9:16' ? LayoutMode.PORTRAIT : LayoutMode.LANDSCAPE }), group);
      setStatus("Generating Veo A-Roll video (this may take a while)...");
      setError(null);
      
@@ -444,12 +884,13 @@ export const App: React.FC = () => {
          const prompt = `A cinematic video of a person talking about: ${sourceText}. High quality, professional lighting.`;
          const videoUrl = await generateVeoVideo(prompt, config);
          
-         setState(prev => ({ ...prev, aRollVideoUrl: videoUrl }));
+         setState(prev => ({ ...prev, aRollVideoUrl: videoUrl }), group);
          setStatus("Video generated!");
      } catch (e: any) {
          setError(e.message || "Failed to generate video");
      } finally {
-         setState(prev => ({ ...prev, isGeneratingVideo: false }));
+         endGroup(group);
+         setTransient(prev => ({ ...prev, isGeneratingVideo: false }));
      }
   };
 
@@ -458,7 +899,8 @@ export const App: React.FC = () => {
           const file = e.target.files[0];
           const url = URL.createObjectURL(file);
           
-          setState(prev => ({ ...prev, aRollVideoUrl: url, beats: [], videoTranscript: "" }));
+          const group = startGroup("Upload A-roll");
+          setState(prev => ({ ...prev, aRollVideoUrl: url, beats: [], videoTranscript: "" }), group);
           
           setIsAnalyzing(true);
           setError(null);
@@ -474,7 +916,7 @@ export const App: React.FC = () => {
                   ...prev, 
                   videoTranscript: transcript,
                   beats: beats,
-              }));
+              }), group);
               
               setStatus("Video uploaded and analyzed. Ready to generate visuals.");
           } catch (e: any) {
@@ -482,6 +924,7 @@ export const App: React.FC = () => {
               setError(e.message || "Failed to process video");
               setStatus("Analysis failed.");
           } finally {
+              endGroup(group);
               setIsAnalyzing(false);
           }
       }
@@ -497,17 +940,17 @@ export const App: React.FC = () => {
           aRollVideoUrl: undefined,
           beats: [],
           videoTranscript: ""
-      }));
+      }), "Remove A-roll");
       setCurrentTime(0);
       setDuration(0);
       setStatus("Video removed.");
   };
 
-  const updateBeat = (beatId: string, updates: Partial<Beat>) => {
+  const updateBeat = (beatId: string, updates: Partial<Beat>, label = "Edit beat") => {
       setState(prev => ({
           ...prev,
           beats: prev.beats.map(b => b.id === beatId ? { ...b, ...updates } : b)
-      }));
+      }), label);
   };
 
   const handleRegenerateImage = async (beat: Beat) => {
@@ -519,15 +962,16 @@ export const App: React.FC = () => {
           
           const img = await generateBRollImage(
               beat.visualPrompt, 
-              state.layoutMode,
+              getBRollAspectRatio(state.layoutMode, beat),
               beatRef,
               beatTheme,
               beatAvatar
           );
           updateBeat(beat.id, { 
               bRollImage: img,
+              bRollClip: undefined,
               bRollOptions: [...(beat.bRollOptions || []), img]
-          });
+          }, "Regenerate image");
           setStatus("Image updated.");
       } catch(e: any) {
           setError("Failed to regenerate image");
@@ -540,44 +984,50 @@ export const App: React.FC = () => {
 
       let completed = 0;
 
-      for (let i = 0; i < beatsToProcess.length; i++) {
-          const beat = beatsToProcess[i];
-          const count = beat.styleConfig?.imageCount || state.styleSettings.imageCount;
-          const theme = beat.styleConfig?.themePrompt || state.styleSettings.themePrompt;
-          const refImg = beat.styleConfig?.referenceImage || state.styleSettings.referenceImage;
-          const avatar = beat.styleConfig?.avatarImage || state.styleSettings.avatarImage;
-
-          for (let j = 0; j < count; j++) {
-              setStatus(`Generating image ${j+1}/${count} for beat ${i + 1}/${beatsToProcess.length}...`);
-              try {
-                  await new Promise(resolve => setTimeout(resolve, 3000));
-                  const img = await generateBRollImage(
-                      beat.visualPrompt, 
-                      state.layoutMode, 
-                      refImg,
-                      theme,
-                      avatar
-                  );
+      // All images from one bulk run undo as a single step
+      const group = startGroup("Generate all images");
+      try {
+          for (let i = 0; i < beatsToProcess.length; i++) {
+              const beat = beatsToProcess[i];
+              const count = beat.styleConfig?.imageCount || state.styleSettings.imageCount;
+              const theme = beat.styleConfig?.themePrompt || state.styleSettings.themePrompt;
+              const refImg = beat.styleConfig?.referenceImage || state.styleSettings.referenceImage;
+              const avatar = beat.styleConfig?.avatarImage || state.styleSettings.avatarImage;
+
+              for (let j = 0; j < count; j++) {
+                  setStatus(`Generating image ${j+1}/${count} for beat ${i + 1}/${beatsToProcess.length}...`);
+                  try {
+                      await new Promise(resolve => setTimeout(resolve, 3000));
+                      const img = await generateBRollImage(
+                          beat.visualPrompt, 
+                          getBRollAspectRatio(state.layoutMode, beat),
+                          refImg,
+                          theme,
+                          avatar
+                      );
                   
-                  setState(prev => ({
-                      ...prev,
-                      beats: prev.beats.map(b => {
-                          if (b.id === beat.id) {
-                              const isFirst = !b.bRollImage && (b.bRollOptions?.length || 0) === 0 && j === 0;
-                              return { 
-                                  ...b, 
-                                  bRollImage: isFirst ? img : (b.bRollImage || img),
-                                  bRollOptions: [...(b.bRollOptions || []), img] 
-                              };
-                          }
-                          return b;
-                      })
-                  }));
-              } catch (e) {
-                  console.error(`Failed to generate image for beat ${beat.id}`, e);
+                      setState(prev => ({
+                          ...prev,
+                          beats: prev.beats.map(b => {
+                              if (b.id === beat.id) {
+                                  const isFirst = !b.bRollImage && (b.bRollOptions?.length || 0) === 0 && j === 0;
+                                  return { 
+                                      ...b, 
+                                      bRollImage: isFirst ? img : (b.bRollImage || img),
+                                      bRollOptions: [...(b.bRollOptions || []), img] 
+                                  };
+                              }
+                              return b;
+                          })
+                      }), group);
+                  } catch (e) {
+                      console.error(`Failed to generate image for beat ${beat.id}`, e);
+                  }
+                  completed++;
               }
-              completed++;
           }
+      } finally {
+          endGroup(group);
       }
       setStatus("Batch generation complete.");
   };
@@ -592,6 +1042,7 @@ export const App: React.FC = () => {
       
       setStatus(`Generating ${count} version${count > 1 ? 's' : ''}...`);
       
+      const group = startGroup("Generate image");
       try {
           const beatTheme = currentBeat.styleConfig?.themePrompt || state.styleSettings.themePrompt;
           const beatRef = currentBeat.styleConfig?.referenceImage || state.styleSettings.referenceImage;
@@ -602,7 +1053,7 @@ export const App: React.FC = () => {
               
               const img = await generateBRollImage(
                   prompt, 
-                  state.layoutMode,
+                  getBRollAspectRatio(state.layoutMode, currentBeat),
                   beatRef, 
                   beatTheme,
                   beatAvatar
@@ -618,17 +1069,20 @@ export const App: React.FC = () => {
                       beats: prev.beats.map(bt => bt.id === beatId ? {
                           ...bt,
                           bRollImage: img, 
+                          bRollClip: undefined,
                           bRollOptions: newOptions,
                           visualPrompt: prompt
                       } : bt)
                   };
-              });
+              }, group);
           }
           
           setStatus(`Generated ${count} image${count > 1 ? 's' : ''}.`);
       } catch(e: any) {
           setError("Failed to generate image");
           setStatus("");
+      } finally {
+          endGroup(group);
       }
   };
 
@@ -638,13 +1092,81 @@ export const App: React.FC = () => {
       if (currentBeat) {
           updateBeat(beatId, { 
               bRollImage: url,
+              bRollClip: undefined,
               bRollOptions: [...(currentBeat.bRollOptions || []), url]
+          }, "Upload image");
+      }
+  };
+
+  // The clip's poster frame becomes the beat's image, shown in thumbnails and until the clip can play.
+  // Picking or generating an image afterwards switches the beat back to a still
+  const attachClip = async (beatId: string, url: string, label: string) => {
+      const { duration, poster } = await probeClip(url);
+      setState(prev => ({
+          ...prev,
+          beats: prev.beats.map(b => b.id === beatId ? {
+              ...b,
+              bRollClip: createBRollClip(url, duration),
+              bRollImage: poster ?? b.bRollImage
+          } : b)
+      }), label);
+  };
+
+  const handleUploadClip = async (beatId: string, file: File) => {
+      const url = URL.createObjectURL(file);
+      try {
+          await attachClip(beatId, url, "Upload clip");
+      } catch (e: any) {
+          URL.revokeObjectURL(url);
+          setError(e.message || "Failed to load clip");
+      }
+  };
+
+  // Veo renders 16:9 or 9:16 only; the clip is cropped into the beat's B-roll area like an image
+  const handleGenerateClip = async (beatId: string, prompt: string) => {
+      const beat = state.beats.find(b => b.id === beatId);
+      if (!beat || !prompt.trim()) return;
+
+      setGeneratingClipIds(prev => new Set(prev).add(beatId));
+      setStatus("Generating B-roll clip (this may take a while)...");
+      setError(null);
+      try {
+          const aspectRatio = getBRollAreaRatio(state.layoutMode, beat) >= 1 ? '16:9' : '9:16';
+          const url = await generateVeoVideo(prompt, { resolution: '720p', aspectRatio });
+          try {
+              await attachClip(beatId, url, "Generate clip");
+          } catch (e) {
+              URL.revokeObjectURL(url);
+              throw e;
+          }
+          setStatus("Clip generated.");
+      } catch (e: any) {
+          setError(e.message || "Failed to generate clip");
+          setStatus("");
+      } finally {
+          setGeneratingClipIds(prev => {
+              const next = new Set(prev);
+              next.delete(beatId);
+              return next;
           });
       }
   };
 
   const handleSelectImage = (beatId: string, imageUrl: string) => {
-      updateBeat(beatId, { bRollImage: imageUrl });
+      updateBeat(beatId, { bRollImage: imageUrl, bRollClip: undefined }, "Select image");
+  };
+
+  // The beat moved to new times, with its keyframes and fixed slide durations scaled to the new length
+  const retimeBeat = (beat: Beat, startTime: number, endTime: number): Beat => {
+      const length = beat.endTime - beat.startTime;
+      const factor = length > 0 ? (endTime - startTime) / length : 1;
+      return {
+          ...beat,
+          startTime,
+          endTime,
+          keyframes: beat.keyframes && scaleKeyframes(beat.keyframes, factor),
+          slideshow: beat.slideshow && scaleSlideshow(beat.slideshow, factor)
+      };
   };
 
   const handleSplitBeat = async (beatId: string, startIdx: number, endIdx: number) => {
@@ -675,18 +1197,15 @@ export const App: React.FC = () => {
           const part = parts[i];
           const partDuration = (part.len / totalLength) * totalDuration;
           
+          // Each part keeps the beat's layout and styling but starts on fresh visuals
           const newBeat: Beat = {
+              ...retimeBeat(originalBeat, currentStartTime, currentStartTime + partDuration),
               id: `beat-${Date.now()}-${i}`,
-              startTime: currentStartTime,
-              endTime: currentStartTime + partDuration,
               textSegment: part.text.trim(),
               visualPrompt: part.text.trim() + ", photorealistic, 4k, b-roll, cinematic lighting",
-              overlayType: originalBeat.overlayType,
-              isEnabled: true,
               bRollImage: undefined,
-              bRollSettings: { x: 0, y: 0, scale: 1, height: 50, aRollOffsetY: 50 },
-              bRollOptions: [],
-              styleConfig: originalBeat.styleConfig 
+              bRollClip: undefined,
+              bRollOptions: []
           };
           newBeats.push(newBeat);
           currentStartTime += partDuration;
@@ -695,7 +1214,7 @@ export const App: React.FC = () => {
       const updatedBeats = [...state.beats];
       updatedBeats.splice(beatIndex, 1, ...newBeats);
       
-      setState(prev => ({ ...prev, beats: updatedBeats }));
+      setState(prev => ({ ...prev, beats: updatedBeats }), "Split beat");
   };
 
   const handleMergeBeats = (beatIds: string[]) => {
@@ -714,18 +1233,12 @@ export const App: React.FC = () => {
           allImages.unshift(firstBeat.bRollImage);
       }
 
+      // The first beat's look carries over to the whole merged span
       const mergedBeat: Beat = {
+          ...retimeBeat(firstBeat, firstBeat.startTime, lastBeat.endTime),
           id: `beat-merged-${Date.now()}`,
-          startTime: firstBeat.startTime,
-          endTime: lastBeat.endTime,
           textSegment: mergedText,
-          visualPrompt: firstBeat.visualPrompt,
-          bRollImage: firstBeat.bRollImage,
-          overlayType: firstBeat.overlayType,
-          isEnabled: firstBeat.isEnabled,
-          bRollSettings: firstBeat.bRollSettings,
-          bRollOptions: allImages,
-          styleConfig: firstBeat.styleConfig
+          bRollOptions: allImages
       };
 
       const remainingBeats = state.beats.filter(b => !beatIds.includes(b.id));
@@ -734,10 +1247,44 @@ export const App: React.FC = () => {
       setState(prev => ({
           ...prev,
           beats: newBeatsList
-      }));
+      }), "Merge beats");
       setStatus(`Merged ${selectedBeats.length} beats.`);
   };
 
+  const restoreModal = (
+      <RestoreSessionModal
+        projectName={recovered?.project.name}
+        recoveredState={recovered?.state ?? null}
+        onRestore={handleRestoreSession}
+        onDiscard={handleDiscardSession}
+      />
+  );
+
+  if (!activeProject) {
+    return (
+      <div className="h-screen bg-transparent text-text-main font-sans selection:bg-primary/30 selection:text-white flex flex-col overflow-hidden">
+        {restoreModal}
+        <ProjectLibrary
+            projects={projects}
+            isLoading={isLibraryLoading}
+            importAccept={BUNDLE_EXTENSION}
+            onCreate={handleCreateProject}
+            onOpen={handleOpenProject}
+            onDuplicate={handleDuplicateProject}
+            onRename={handleRenameProject}
+            onDelete={handleDeleteProject}
+            onImport={handleImportBundle}
+        />
+        {error && (
+          <div className="fixed bottom-4 left-1/2 -translate-x-1/2 flex items-center gap-2 px-3 py-1.5 bg-red-500/10 border border-red-500/20 rounded-full text-red-400 text-[10px] font-medium animate-fade-in">
+             <AlertCircle size={12} />
+             {error}
+          </div>
+        )}
+      </div>
+    );
+  }
+
   return (
     <div className="h-screen bg-transparent text-text-main font-sans selection:bg-primary/30 selection:text-white flex flex-col overflow-hidden">
       
@@ -750,7 +1297,21 @@ export const App: React.FC = () => {
         />
       )}
 
+      {restoreModal}
+
       <CollaborationPanel isOpen={isCollabOpen} onClose={() => setIsCollabOpen(false)} />
+
+      <SnapshotsPanel
+        isOpen={isSnapshotsOpen}
+        snapshots={snapshots}
+        isLoading={isSnapshotsLoading}
+        currentState={state}
+        onClose={() => setIsSnapshotsOpen(false)}
+        onCreate={handleCreateSnapshot}
+        onRestore={handleRestoreSnapshot}
+        onFork={handleForkSnapshot}
+        onDelete={handleDeleteSnapshot}
+      />
       
       {/* Generate Video Modal */}
       <GenerateVideoModal 
@@ -759,32 +1320,27 @@ export const App: React.FC = () => {
         onGenerate={handleGenerateVeo}
       />
 
-      {/* EXPORT OVERLAY */}
-      {isExporting && (
-          <div className="fixed inset-0 z-[100] bg-black/80 flex flex-col items-center justify-center gap-6 backdrop-blur-xl animate-fade-in">
-              <div className="relative">
-                  <Loader2 size={64} className="text-primary animate-spin" />
-                  <div className="absolute inset-0 flex items-center justify-center">
-                    <div className="w-16 h-16 bg-primary/20 rounded-full blur-2xl animate-pulse"></div>
-                  </div>
-              </div>
-              <div className="flex flex-col items-center gap-2">
-                <div className="text-2xl font-bold text-white tracking-tight">Rendering Video</div>
-                <div className="text-sm text-gray-400 font-medium">Please wait while we compose your masterpiece</div>
-              </div>
-              <div className="w-96 h-1.5 bg-white/10 rounded-full overflow-hidden border border-white/5">
-                  <div 
-                      className="h-full bg-gradient-to-r from-primary via-secondary to-primary bg-[length:200%_100%] animate-[shimmer_2s_linear_infinite]"
-                      style={{ width: `${exportProgress}%` }}
-                  />
-              </div>
-              <div className="text-xs text-gray-500 font-mono tracking-widest">{exportProgress}%</div>
-          </div>
-      )}
+      <ExportDialog
+        isOpen={isExportDialogOpen}
+        settings={state.exportSettings}
+        layoutMode={state.layoutMode}
+        selection={validSelection}
+        onChange={handleExportSettingsChange}
+        onExport={handleExportVideo}
+        onPublishPack={handlePublishPack}
+        onClose={() => setIsExportDialogOpen(false)}
+      />
 
       {/* TOP HEADER */}
       <header className="h-14 px-6 glass-panel border-b border-border flex items-center justify-between shrink-0 z-50">
           <div className="flex items-center gap-3">
+              <button
+                  onClick={handleCloseProject}
+                  className="p-2 -ml-2 rounded-lg transition-colors border border-transparent text-text-muted hover:text-text-main hover:bg-surface"
+                  title="All Projects"
+              >
+                  <LayoutGrid size={16} />
+              </button>
               <div className="w-8 h-8 rounded-lg bg-gradient-to-br from-primary to-secondary flex items-center justify-center shadow-lg shadow-primary/20">
                   <Music size={18} className="text-white fill-white" />
               </div>
@@ -792,7 +1348,7 @@ export const App: React.FC = () => {
                   <h1 className="text-sm font-bold bg-clip-text text-transparent bg-gradient-to-r from-text-main to-text-muted tracking-tight">
                       Remixer Beats <span className="text-primary">AI</span>
                   </h1>
-                  <span className="text-[10px] text-text-muted font-medium tracking-wide">VIDEO COMPOSER SUITE</span>
+                  <span className="text-[10px] text-text-muted font-medium tracking-wide truncate max-w-[220px]" title={activeProject.name}>{activeProject.name}</span>
               </div>
           </div>
 
@@ -810,8 +1366,52 @@ export const App: React.FC = () => {
                  </div>
                )}
 
+               {lastSavedAt && (
+                 <span className="text-[10px] text-text-muted font-medium" title={new Date(lastSavedAt).toLocaleString()}>
+                    Saved {new Date(lastSavedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                 </span>
+               )}
+
                <div className="h-4 w-px bg-border mx-2"></div>
                
+               {/* UNDO / REDO / HISTORY */}
+               <div className="relative flex items-center gap-0.5">
+                   <button
+                      onClick={history.undo}
+                      disabled={!history.canUndo}
+                      className="p-2 rounded-lg transition-colors border border-transparent text-text-muted hover:text-text-main hover:bg-surface disabled:opacity-30 disabled:cursor-not-allowed"
+                      title={history.canUndo ? `Undo ${history.entries[history.index].label} (Ctrl+Z)` : 'Nothing to undo'}
+                   >
+                       <Undo2 size={16} />
+                   </button>
+                   <button
+                      onClick={history.redo}
+                      disabled={!history.canRedo}
+                      className="p-2 rounded-lg transition-colors border border-transparent text-text-muted hover:text-text-main hover:bg-surface disabled:opacity-30 disabled:cursor-not-allowed"
+                      title={history.canRedo ? `Redo ${history.entries[history.index + 1].label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                   >
+                       <Redo2 size={16} />
+                   </button>
+                   <button
+                      onClick={() => setIsHistoryOpen(!isHistoryOpen)}
+                      className={`p-2 rounded-lg transition-colors border border-transparent ${isHistoryOpen ? 'bg-surface text-text-main border-border' : 'text-text-muted hover:text-text-main hover:bg-surface'}`}
+                      title="History"
+                   >
+                       <History size={16} />
+                   </button>
+                   <HistoryPanel
+                      isOpen={isHistoryOpen}
+                      entries={history.entries}
+                      currentIndex={history.index}
+                      canUndo={history.canUndo}
+                      canRedo={history.canRedo}
+                      onUndo={history.undo}
+                      onRedo={history.redo}
+                      onJumpTo={history.jumpTo}
+                      onClose={() => setIsHistoryOpen(false)}
+                   />
+               </div>
+
                {/* THEME TOGGLE */}
                <button 
                   onClick={handleThemeToggle}
@@ -831,8 +1431,49 @@ export const App: React.FC = () => {
                </button>
 
                <button 
-                   onClick={handleExportVideo}
-                   disabled={!state.aRollVideoUrl || isExporting || isAnalyzing}
+                  onClick={handleOpenSnapshots}
+                  className={`p-2 rounded-lg transition-colors border border-transparent ${isSnapshotsOpen ? 'bg-surface text-text-main border-border' : 'text-text-muted hover:text-text-main hover:bg-surface'}`}
+                  title="Snapshots"
+               >
+                   <Bookmark size={16} />
+               </button>
+
+               <button 
+                  onClick={handleExportBundle}
+                  disabled={isAnalyzing}
+                  className="p-2 rounded-lg transition-colors border border-transparent text-text-muted hover:text-text-main hover:bg-surface disabled:opacity-30 disabled:cursor-not-allowed"
+                  title="Export Project Bundle"
+               >
+                   <Package size={16} />
+               </button>
+
+               <div className="relative">
+                   <button
+                      onClick={() => setIsRenderQueueOpen(!isRenderQueueOpen)}
+                      className={`flex items-center gap-2 p-2 rounded-lg transition-colors border border-transparent ${isRenderQueueOpen ? 'bg-surface text-text-main border-border' : 'text-text-muted hover:text-text-main hover:bg-surface'}`}
+                      title="Render Queue"
+                   >
+                       {renderQueue.activeJob ? <Loader2 size={16} className="text-primary animate-spin" /> : <ListVideo size={16} />}
+                       {renderQueue.pendingCount > 0 && (
+                           <span className="text-[10px] font-mono">
+                               {renderQueue.activeJob?.progress ? `${Math.round(renderQueue.activeJob.progress.progress * 100)}%` : ''}
+                               {renderQueue.pendingCount > 1 ? ` +${renderQueue.pendingCount - 1}` : ''}
+                           </span>
+                       )}
+                   </button>
+                   <RenderQueuePanel
+                      isOpen={isRenderQueueOpen}
+                      jobs={renderQueue.jobs}
+                      onCancel={renderQueue.cancel}
+                      onRemove={renderQueue.remove}
+                      onClearFinished={renderQueue.clearFinished}
+                      onClose={() => setIsRenderQueueOpen(false)}
+                   />
+               </div>
+
+               <button 
+                   onClick={() => setIsExportDialogOpen(true)}
+                   disabled={!state.aRollVideoUrl || isAnalyzing}
                    className="flex items-center gap-2 px-4 py-1.5 bg-surface hover:bg-background border border-border text-text-main rounded-lg text-xs font-semibold transition disabled:opacity-30 disabled:cursor-not-allowed group"
                >
                    <Download size={14} className="group-hover:text-primary transition-colors" />
@@ -968,19 +1609,55 @@ export const App: React.FC = () => {
                         <div className="w-1.5 h-1.5 rounded-full bg-red-500 shadow-[0_0_8px_rgba(239,68,68,0.6)]"></div>
                         REC VIEW
                     </div>
-                    <div className="flex bg-surface rounded-lg p-0.5 border border-border">
-                          <button 
-                              onClick={() => setState(prev => ({ ...prev, layoutMode: LayoutMode.PORTRAIT }))}
-                              className={`px-3 py-1 rounded-md text-[10px] font-bold transition-all ${state.layoutMode === LayoutMode.PORTRAIT ? 'bg-text-main text-background shadow-sm' : 'text-text-muted hover:text-text-main'}`}
-                          >
-                              9:16
-                          </button>
-                          <button 
-                              onClick={() => setState(prev => ({ ...prev, layoutMode: LayoutMode.LANDSCAPE }))}
-                              className={`px-3 py-1 rounded-md text-[10px] font-bold transition-all ${state.layoutMode === LayoutMode.LANDSCAPE ? 'bg-text-main text-background shadow-sm' : 'text-text-muted hover:text-text-main'}`}
-                          >
-                              16:9
-                          </button>
+                    <div className="flex items-center gap-2">
+                        <div className="relative">
+                            <button
+                                onClick={() => setIsCaptionPanelOpen(!isCaptionPanelOpen)}
+                                className={`p-1.5 rounded-lg transition-colors border ${isCaptionPanelOpen || state.captionSettings.enabled ? 'bg-surface text-text-main border-border' : 'border-transparent text-text-muted hover:text-text-main hover:bg-surface'}`}
+                                title="Captions"
+                            >
+                                <Captions size={14} className={state.captionSettings.enabled ? 'text-primary' : ''} />
+                            </button>
+                            <CaptionSettingsPanel
+                                isOpen={isCaptionPanelOpen}
+                                settings={state.captionSettings}
+                                isBranded={state.styleSettings.brandKit.enabled}
+                                onChange={updateCaptionSettings}
+                                onClose={() => setIsCaptionPanelOpen(false)}
+                            />
+                        </div>
+                        <div className="relative">
+                            <button
+                                onClick={() => setIsTextPanelOpen(!isTextPanelOpen)}
+                                className={`p-1.5 rounded-lg transition-colors border ${isTextPanelOpen || state.textOverlays.length > 0 ? 'bg-surface text-text-main border-border' : 'border-transparent text-text-muted hover:text-text-main hover:bg-surface'}`}
+                                title="Text overlays"
+                            >
+                                <Type size={14} className={state.textOverlays.length > 0 ? 'text-primary' : ''} />
+                            </button>
+                            <TextOverlayPanel
+                                isOpen={isTextPanelOpen}
+                                overlays={state.textOverlays}
+                                beats={state.beats}
+                                currentTime={currentTime}
+                                isBranded={state.styleSettings.brandKit.enabled}
+                                onAdd={handleAddTextOverlay}
+                                onUpdate={handleUpdateTextOverlay}
+                                onRemove={handleRemoveTextOverlay}
+                                onClose={() => setIsTextPanelOpen(false)}
+                            />
+                        </div>
+                        <div className="flex bg-surface rounded-lg p-0.5 border border-border">
+                              {LAYOUT_MODES.map(mode => (
+                                  <button
+                                      key={mode.value}
+                                      onClick={() => setState(prev => ({ ...prev, layoutMode: mode.value }), "Change layout")}
+                                      className={`px-3 py-1 rounded-md text-[10px] font-bold transition-all ${state.layoutMode === mode.value ? 'bg-text-main text-background shadow-sm' : 'text-text-muted hover:text-text-main'}`}
+                                      title={mode.description}
+                                  >
+                                      {mode.label}
+                                  </button>
+                              ))}
+                        </div>
                     </div>
                 </div>
 
@@ -992,10 +1669,18 @@ export const App: React.FC = () => {
                             aRollUrl={state.aRollVideoUrl}
                             beats={state.beats}
                             layoutMode={state.layoutMode}
+                            captionSettings={state.captionSettings}
+                            textOverlays={state.textOverlays}
+                            brandKit={state.styleSettings.brandKit}
                             currentTime={currentTime}
                             duration={duration}
                             isPlaying={isPlaying}
                             videoComments={state.videoComments}
+                            selection={selection}
+                            onSetInPoint={handleSetInPoint}
+                            onSetOutPoint={handleSetOutPoint}
+                            onClearSelection={handleClearSelection}
+                            onExportSelection={() => validSelection && handleExportVideo(validSelection)}
                             onTogglePlay={handleTogglePlay}
                             onTimeUpdate={handleVideoTimeUpdate}
                             onDurationChange={handleVideoDurationChange}
@@ -1009,7 +1694,7 @@ export const App: React.FC = () => {
                             onResolveComment={handleResolveVideoComment}
                         />
                     ) : (
-                        <div className="aspect-[9/16] h-[60vh] bg-surface/50 flex flex-col items-center justify-center text-text-muted gap-4 border border-border rounded-lg shadow-2xl">
+                        <div style={{ aspectRatio: `${LAYOUT_ASPECTS[state.layoutMode].width} / ${LAYOUT_ASPECTS[state.layoutMode].height}` }} className="h-[60vh] max-w-full bg-surface/50 flex flex-col items-center justify-center text-text-muted gap-4 border border-border rounded-lg shadow-2xl">
                           <div className="w-20 h-20 rounded-full border border-border bg-surface flex items-center justify-center animate-pulse-slow">
                               <Video size={32} className="opacity-20" />
                           </div>
@@ -1024,10 +1709,14 @@ export const App: React.FC = () => {
                 <Timeline 
                     beats={state.beats}
                     currentTime={currentTime}
+                    layoutMode={state.layoutMode}
                     onSeek={handleSeek}
                     onUpdateBeat={updateBeat}
                     onRegenerateImage={handleRegenerateImage}
                     onUploadImage={handleUploadImage}
+                    onUploadClip={handleUploadClip}
+                    onGenerateClip={handleGenerateClip}
+                    generatingClipIds={generatingClipIds}
                     onSplitBeat={handleSplitBeat}
                     onMergeBeats={handleMergeBeats}
                     onGenerateImage={handleGenerateImageFromPrompt}
@@ -1035,6 +1724,7 @@ export const App: React.FC = () => {
                     styleSettings={state.styleSettings}
                     onUpdateStyleSettings={updateStyleSettings}
                     onBulkGenerate={handleBulkGenerate}
+                    onRenderBeat={handleRenderBeat}
                     isAnalyzing={isAnalyzing}
                 />
              </aside>
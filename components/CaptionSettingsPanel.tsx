@@ -0,0 +1,115 @@
+import React from 'react';
+import { Captions, X } from 'lucide-react';
+import { CaptionSettings, CaptionStyle } from '../types';
+import { CAPTION_FONTS } from '../utils/captions';
+
+interface CaptionSettingsPanelProps {
+  isOpen: boolean;
+  settings: CaptionSettings;
+  isBranded: boolean; // the brand kit sets the font and highlight colour
+  onChange: (settings: Partial<CaptionSettings>) => void;
+  onClose: () => void;
+}
+
+const STYLES: { value: CaptionStyle; label: string }[] = [
+  { value: 'karaoke', label: 'Karaoke' },
+  { value: 'pop-in', label: 'Pop-in' },
+  { value: 'static', label: 'Static' }
+];
+
+const Slider: React.FC<{ label: string; value: number; display: string; min: number; max: number; step: number; onChange: (value: number) => void }> = ({ label, value, display, min, max, step, onChange }) => (
+  <div className="space-y-1">
+      <div className="flex justify-between text-[10px] text-text-muted"><span>{label}</span><span>{display}</span></div>
+      <input type="range" min={min} max={max} step={step} value={value} onChange={(e) => onChange(parseFloat(e.target.value))} className="w-full accent-primary h-1 bg-text-main/10 rounded-lg appearance-none cursor-pointer" />
+  </div>
+);
+
+const ColorInput: React.FC<{ label: string; value: string; onChange: (value: string) => void }> = ({ label, value, onChange }) => (
+  <label className="flex items-center gap-1.5 text-[10px] text-text-muted cursor-pointer">
+      <input type="color" value={value} onChange={(e) => onChange(e.target.value)} className="w-5 h-5 rounded border border-border bg-transparent cursor-pointer" />
+      {label}
+  </label>
+);
+
+export const CaptionSettingsPanel: React.FC<CaptionSettingsPanelProps> = ({ isOpen, settings, isBranded, onChange, onClose }) => {
+  if (!isOpen) return null;
+
+  return (
+    <div className="absolute top-full right-0 mt-2 w-72 max-h-[70vh] glass-panel rounded-xl shadow-2xl flex flex-col overflow-hidden animate-slide-up z-[60]">
+        <div className="h-10 px-3 border-b border-border flex items-center justify-between shrink-0">
+            <span className="text-[10px] font-bold text-text-muted uppercase tracking-widest flex items-center gap-2">
+                <Captions size={12} /> Captions
+            </span>
+            <div className="flex items-center gap-2">
+                <button
+                    onClick={() => onChange({ enabled: !settings.enabled })}
+                    className={`px-2 py-0.5 rounded text-[9px] font-bold uppercase transition-colors ${settings.enabled ? 'bg-primary text-white' : 'bg-text-main/10 text-text-muted hover:text-text-main'}`}
+                >
+                    {settings.enabled ? 'On' : 'Off'}
+                </button>
+                <button onClick={onClose} className="p-1 rounded hover:bg-text-main/5 text-text-muted hover:text-text-main"><X size={12} /></button>
+            </div>
+        </div>
+
+        <div className={`flex-1 overflow-y-auto custom-scrollbar p-3 space-y-4 ${settings.enabled ? '' : 'opacity-40 pointer-events-none'}`}>
+            {/* Style */}
+            <div className="flex bg-surface rounded-lg p-0.5 border border-border">
+                {STYLES.map(style => (
+                    <button
+                        key={style.value}
+                        onClick={() => onChange({ style: style.value })}
+                        className={`flex-1 px-2 py-1 rounded-md text-[10px] font-bold transition-all ${settings.style === style.value ? 'bg-text-main text-background shadow-sm' : 'text-text-muted hover:text-text-main'}`}
+                    >
+                        {style.label}
+                    </button>
+                ))}
+            </div>
+
+            {/* Font */}
+            <div className="space-y-1.5">
+                <label className="text-[10px] font-bold text-text-muted uppercase">Font</label>
+                {isBranded && <p className="text-[9px] text-text-muted">Font and highlight colour come from the brand kit.</p>}
+                <div className={`flex flex-wrap gap-1 ${isBranded ? 'opacity-40 pointer-events-none' : ''}`}>
+                    {CAPTION_FONTS.map(font => (
+                        <button
+                            key={font}
+                            onClick={() => onChange({ fontFamily: font })}
+                            className={`px-2 py-1 rounded-md text-[11px] border transition-colors ${settings.fontFamily === font ? 'border-primary text-text-main bg-primary/10' : 'border-border text-text-muted hover:text-text-main'}`}
+                            style={{ fontFamily: font }}
+                        >
+                            {font}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <Slider label="Size" value={settings.fontSize} display={`${settings.fontSize}%`} min={3} max={12} step={0.5} onChange={(fontSize) => onChange({ fontSize })} />
+            <Slider label="Vertical Position" value={settings.position} display={`${settings.position}%`} min={0} max={100} step={1} onChange={(position) => onChange({ position })} />
+            <Slider label="Stroke" value={settings.strokeWidth} display={settings.strokeWidth > 0 ? `${settings.strokeWidth}%` : 'None'} min={0} max={30} step={1} onChange={(strokeWidth) => onChange({ strokeWidth })} />
+
+            {/* Colors */}
+            <div className="grid grid-cols-2 gap-2 pt-3 border-t border-border">
+                <ColorInput label="Text" value={settings.textColor} onChange={(textColor) => onChange({ textColor })} />
+                <div className={isBranded ? 'opacity-40 pointer-events-none' : ''}>
+                    <ColorInput label="Highlight" value={settings.highlightColor} onChange={(highlightColor) => onChange({ highlightColor })} />
+                </div>
+                <ColorInput label="Stroke" value={settings.strokeColor} onChange={(strokeColor) => onChange({ strokeColor })} />
+                <ColorInput label="Box" value={settings.boxColor} onChange={(boxColor) => onChange({ boxColor })} />
+            </div>
+
+            {/* Background box */}
+            <div className="space-y-2 pt-3 border-t border-border">
+                <label className="flex items-center justify-between text-[10px] font-bold text-text-muted uppercase cursor-pointer">
+                    Background Box
+                    <input type="checkbox" checked={settings.showBox} onChange={(e) => onChange({ showBox: e.target.checked })} className="accent-primary" />
+                </label>
+                {settings.showBox && (
+                    <Slider label="Box Opacity" value={settings.boxOpacity} display={`${Math.round(settings.boxOpacity * 100)}%`} min={0} max={1} step={0.05} onChange={(boxOpacity) => onChange({ boxOpacity })} />
+                )}
+            </div>
+
+            <p className="text-[9px] text-text-muted leading-relaxed">Captions stay inside the platform safe area for the current layout and are burned into exports.</p>
+        </div>
+    </div>
+  );
+};
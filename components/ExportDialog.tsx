@@ -0,0 +1,216 @@
+import React, { useState } from 'react';
+import { X, Download, Check, SlidersHorizontal, Layers } from 'lucide-react';
+import { ExportFormat, ExportPreset, ExportSettings, LayoutMode, TimeRange } from '../types';
+import { EXPORT_PRESETS, CUSTOM_PRESET_ID, EXPORT_LIMITS, resolveExportPreset, clampPreset, getOutputSize, formatBitrate } from '../utils/exportPresets';
+import { EXPORT_FORMATS, formatRange } from '../utils/renderUtils';
+import { LAYOUT_MODES } from '../utils/layoutModes';
+
+interface ExportDialogProps {
+  isOpen: boolean;
+  settings: ExportSettings;
+  layoutMode: LayoutMode;
+  selection: TimeRange | null; // In/out points from the scrubber, if any
+  onChange: (settings: ExportSettings) => void;
+  onExport: (range: TimeRange | null) => void; // null exports the whole video
+  onPublishPack: (range: TimeRange | null) => void; // Queues one export per settings.publishFormats
+  onClose: () => void;
+}
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ isOpen, settings, layoutMode, selection, onChange, onExport, onPublishPack, onClose }) => {
+  const [exportSelection, setExportSelection] = useState(true);
+  if (!isOpen) return null;
+
+  const range = selection && exportSelection ? selection : null;
+
+  const active = resolveExportPreset(settings);
+  const output = getOutputSize(layoutMode, active.resolution);
+  const isCustom = settings.presetId === CUSTOM_PRESET_ID;
+
+  // Kept in the same order as the layout picker whatever order they were ticked in
+  const togglePublishFormat = (layoutMode: LayoutMode) => {
+      const selected = settings.publishFormats.includes(layoutMode)
+          ? settings.publishFormats.filter(f => f !== layoutMode)
+          : [...settings.publishFormats, layoutMode];
+      onChange({ ...settings, publishFormats: LAYOUT_MODES.map(m => m.value).filter(f => selected.includes(f)) });
+  };
+
+  const updateCustom = (updates: Partial<ExportPreset>) => {
+      onChange({ ...settings, presetId: CUSTOM_PRESET_ID, custom: { ...settings.custom, ...updates } });
+  };
+
+  const renderPreset = (preset: ExportPreset, id: string) => {
+      const size = getOutputSize(layoutMode, preset.resolution);
+      const isSelected = settings.presetId === id;
+      return (
+          <button
+              key={id}
+              onClick={() => onChange({ ...settings, presetId: id })}
+              className={`flex items-center justify-between px-3 py-2.5 rounded-lg border transition-all text-left ${isSelected ? 'bg-primary/20 border-primary text-primary' : 'bg-white/5 border-white/5 text-gray-400 hover:bg-white/10'}`}
+          >
+              <div className="flex flex-col gap-0.5">
+                  <span className={`text-xs font-semibold ${isSelected ? 'text-white' : 'text-gray-200'}`}>{preset.name}</span>
+                  <span className="text-[10px] font-mono text-gray-500">{size.width}×{size.height} · {preset.fps} fps · {formatBitrate(preset.videoBitrate)}</span>
+              </div>
+              {isSelected && <Check size={14} />}
+          </button>
+      );
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-fade-in">
+      <div className="w-full max-w-md bg-[#09090b] border border-white/10 rounded-2xl shadow-2xl overflow-hidden flex flex-col">
+
+        {/* Header */}
+        <div className="px-5 py-4 border-b border-white/5 flex items-center justify-between bg-white/[0.02]">
+           <div className="flex items-center gap-2">
+              <div className="w-8 h-8 rounded-lg bg-gradient-to-br from-primary to-secondary flex items-center justify-center shadow-lg shadow-primary/20">
+                  <Download size={16} className="text-white" />
+              </div>
+              <h2 className="text-sm font-bold text-white tracking-wide">Export Video</h2>
+           </div>
+           <button onClick={onClose} className="p-1.5 rounded-lg text-gray-500 hover:text-white hover:bg-white/5 transition">
+             <X size={16} />
+           </button>
+        </div>
+
+        {/* Body */}
+        <div className="p-6 space-y-6 max-h-[70vh] overflow-y-auto custom-scrollbar">
+
+            {/* 1. Presets */}
+            <div className="space-y-2">
+                <label className="text-xs font-bold text-gray-400 uppercase tracking-wider block">Preset</label>
+                <div className="flex flex-col gap-2">
+                    {EXPORT_PRESETS.map(preset => renderPreset(preset, preset.id))}
+                    {renderPreset({ ...clampPreset(settings.custom), name: 'Custom' }, CUSTOM_PRESET_ID)}
+                </div>
+            </div>
+
+            {/* 2. Custom values */}
+            {isCustom && (
+                <div className="space-y-3 pt-2 border-t border-white/5">
+                    <label className="text-xs font-bold text-gray-400 uppercase tracking-wider flex items-center gap-2"><SlidersHorizontal size={12} /> Custom</label>
+                    <div className="grid grid-cols-3 gap-2">
+                        <div className="space-y-1">
+                            <span className="text-[10px] text-gray-500">Resolution (p)</span>
+                            <input
+                                type="number"
+                                min={EXPORT_LIMITS.resolution.min}
+                                max={EXPORT_LIMITS.resolution.max}
+                                step={2}
+                                value={settings.custom.resolution}
+                                onChange={(e) => updateCustom({ resolution: parseInt(e.target.value) || 0 })}
+                                className="w-full bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-white font-mono focus:outline-none focus:border-primary/50"
+                            />
+                        </div>
+                        <div className="space-y-1">
+                            <span className="text-[10px] text-gray-500">Frame rate</span>
+                            <input
+                                type="number"
+                                min={EXPORT_LIMITS.fps.min}
+                                max={EXPORT_LIMITS.fps.max}
+                                value={settings.custom.fps}
+                                onChange={(e) => updateCustom({ fps: parseInt(e.target.value) || 0 })}
+                                className="w-full bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-white font-mono focus:outline-none focus:border-primary/50"
+                            />
+                        </div>
+                        <div className="space-y-1">
+                            <span className="text-[10px] text-gray-500">Bitrate (Mbps)</span>
+                            <input
+                                type="number"
+                                min={EXPORT_LIMITS.videoBitrate.min / 1_000_000}
+                                max={EXPORT_LIMITS.videoBitrate.max / 1_000_000}
+                                step={0.5}
+                                value={settings.custom.videoBitrate / 1_000_000}
+                                onChange={(e) => updateCustom({ videoBitrate: Math.round((parseFloat(e.target.value) || 0) * 1_000_000) })}
+                                className="w-full bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-white font-mono focus:outline-none focus:border-primary/50"
+                            />
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {/* 3. Range */}
+            {selection && (
+                <div className="space-y-2 pt-2 border-t border-white/5">
+                    <div className="flex items-center justify-between">
+                        <label className="text-xs font-bold text-gray-400 uppercase tracking-wider">Range</label>
+                        <div className="flex bg-white/5 rounded-lg p-0.5">
+                            {[{ value: false, label: 'Full video' }, { value: true, label: 'Selection' }].map(option => (
+                                <button
+                                    key={option.label}
+                                    onClick={() => setExportSelection(option.value)}
+                                    className={`px-2 py-1 rounded text-[10px] font-bold uppercase transition-all ${exportSelection === option.value ? 'bg-white/10 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+                                >
+                                    {option.label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    <p className="text-[10px] text-gray-500">
+                        {range ? `Only ${formatRange(range)} (${(range.end - range.start).toFixed(1)}s), set with the in/out points on the scrubber.` : 'The whole A-roll, ignoring the in/out points.'}
+                    </p>
+                </div>
+            )}
+
+            {/* 4. Container */}
+            <div className="space-y-2 pt-2 border-t border-white/5">
+                <div className="flex items-center justify-between">
+                    <label className="text-xs font-bold text-gray-400 uppercase tracking-wider">Format</label>
+                    <div className="flex bg-white/5 rounded-lg p-0.5">
+                        {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+                            <button
+                                key={format}
+                                onClick={() => onChange({ ...settings, format })}
+                                className={`px-2 py-1 rounded text-[10px] font-bold uppercase transition-all ${settings.format === format ? 'bg-white/10 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+                            >
+                                {format}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                <p className="text-[10px] text-gray-500">{EXPORT_FORMATS[settings.format].label}. Falls back to the other format if this browser can't encode it.</p>
+            </div>
+
+            {/* 5. Publish pack */}
+            <div className="space-y-2 pt-2 border-t border-white/5">
+                <div className="flex items-center justify-between">
+                    <label className="text-xs font-bold text-gray-400 uppercase tracking-wider flex items-center gap-2"><Layers size={12} /> Publish Pack</label>
+                    <div className="flex bg-white/5 rounded-lg p-0.5">
+                        {LAYOUT_MODES.map(mode => (
+                            <button
+                                key={mode.value}
+                                onClick={() => togglePublishFormat(mode.value)}
+                                className={`px-2 py-1 rounded text-[10px] font-bold uppercase transition-all ${settings.publishFormats.includes(mode.value) ? 'bg-white/10 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+                                title={mode.description}
+                            >
+                                {mode.label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                <p className="text-[10px] text-gray-500">Renders every ticked format with this preset. Beats framed separately for a format (Transform & Layout) use that framing there.</p>
+                <button
+                    onClick={() => onPublishPack(range)}
+                    disabled={settings.publishFormats.length === 0}
+                    className="w-full px-4 py-2 rounded-lg bg-white/5 border border-white/10 text-[10px] font-bold uppercase tracking-wide text-gray-200 hover:bg-white/10 disabled:opacity-40 disabled:cursor-not-allowed flex items-center justify-center gap-2 transition"
+                >
+                    <Layers size={12} /> Queue {settings.publishFormats.length} format{settings.publishFormats.length === 1 ? '' : 's'}
+                </button>
+            </div>
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 bg-white/[0.02] border-t border-white/5 flex items-center justify-between gap-2">
+            <span className="text-[10px] font-mono text-gray-400">{output.width}×{output.height} · {active.fps} fps · {formatBitrate(active.videoBitrate)}{range && ` · ${formatRange(range)}`}</span>
+            <button
+                onClick={() => onExport(range)}
+                className="px-6 py-2.5 bg-gradient-to-r from-primary to-secondary hover:from-primary/80 hover:to-secondary/80 text-white rounded-xl text-xs font-bold uppercase tracking-wide shadow-lg shadow-primary/20 flex items-center gap-2 transition transform active:scale-95"
+            >
+                <Download size={14} /> Add to Queue
+            </button>
+        </div>
+
+      </div>
+    </div>
+  );
+};
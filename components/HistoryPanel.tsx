@@ -0,0 +1,62 @@
+import React from 'react';
+import { History, X, Undo2, Redo2 } from 'lucide-react';
+
+interface HistoryPanelProps {
+  isOpen: boolean;
+  entries: { id: number; label: string; timestamp: number }[];
+  currentIndex: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJumpTo: (index: number) => void;
+  onClose: () => void;
+}
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  isOpen,
+  entries,
+  currentIndex,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onJumpTo,
+  onClose
+}) => {
+  if (!isOpen) return null;
+
+  return (
+    <div className="absolute top-full right-0 mt-2 w-72 max-h-[60vh] glass-panel rounded-xl shadow-2xl flex flex-col overflow-hidden animate-slide-up z-[60]">
+        <div className="h-10 px-3 border-b border-border flex items-center justify-between shrink-0">
+            <span className="text-[10px] font-bold text-text-muted uppercase tracking-widest flex items-center gap-2">
+                <History size={12} /> History
+            </span>
+            <div className="flex items-center gap-1">
+                <button onClick={onUndo} disabled={!canUndo} className="p-1 rounded hover:bg-text-main/5 text-text-muted hover:text-text-main disabled:opacity-30 disabled:cursor-not-allowed" title="Undo (Ctrl+Z)"><Undo2 size={12} /></button>
+                <button onClick={onRedo} disabled={!canRedo} className="p-1 rounded hover:bg-text-main/5 text-text-muted hover:text-text-main disabled:opacity-30 disabled:cursor-not-allowed" title="Redo (Ctrl+Shift+Z)"><Redo2 size={12} /></button>
+                <div className="w-px h-3 bg-border mx-1"></div>
+                <button onClick={onClose} className="p-1 rounded hover:bg-text-main/5 text-text-muted hover:text-text-main"><X size={12} /></button>
+            </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-1">
+            {/* Newest first */}
+            {entries.map((entry, i) => ({ entry, i })).reverse().map(({ entry, i }) => (
+                <button
+                    key={entry.id}
+                    onClick={() => onJumpTo(i)}
+                    className={`w-full flex items-center justify-between gap-2 px-2.5 py-1.5 rounded-md text-left transition-colors
+                        ${i === currentIndex ? 'bg-primary/15 text-text-main' : i > currentIndex ? 'text-text-muted/50 hover:bg-text-main/5' : 'text-text-main/80 hover:bg-text-main/5'}
+                    `}
+                >
+                    <span className={`text-[11px] truncate ${i > currentIndex ? 'line-through' : ''}`}>{entry.label}</span>
+                    <span className="text-[9px] font-mono text-text-muted shrink-0">
+                        {new Date(entry.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+                    </span>
+                </button>
+            ))}
+        </div>
+    </div>
+  );
+};
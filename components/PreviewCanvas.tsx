@@ -0,0 +1,168 @@
+import React, { useEffect, useRef } from 'react';
+import { CompositorScene, ImageSources, drawComposite, getSceneFonts, getVideoSource, loadSceneImages } from '../utils/compositor';
+import { getTextOverlayFont } from '../utils/textOverlays';
+import { getClipTime, getVisibleClipBeats, isClipAudible, isClipFrozen, playsClip } from '../utils/brollClips';
+
+const CLIP_DRIFT_TOLERANCE = 0.25; // seconds a playing clip may wander before it's re-seeked
+const CLIP_SEEK_TOLERANCE = 0.01;
+
+interface PreviewCanvasProps {
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  scene: CompositorScene;
+  currentTime: number;
+  isPlaying: boolean;
+  onClick: () => void;
+}
+
+// The live preview, painted by the same compositor as the export from the (hidden) A-roll video element.
+// While playing it redraws every animation frame from the video clock, since `timeupdate` only fires a few
+// times a second; while paused it redraws on seeks, edits and once images or fonts finish loading.
+// B-roll clips play in hidden players of their own, nudged back whenever they drift from the A-roll.
+export const PreviewCanvas: React.FC<PreviewCanvasProps> = ({ videoRef, scene, currentTime, isPlaying, onClick }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const imagesRef = useRef<ImageSources>({});
+  const clipPlayersRef = useRef(new Map<string, HTMLVideoElement>()); // keyed by beat id
+  // Async callbacks (image loads, seeks, resizes) must paint the latest props
+  const latest = useRef({ scene, currentTime, isPlaying });
+  latest.current = { scene, currentTime, isPlaying };
+
+  const releasePlayer = (beatId: string) => {
+      const player = clipPlayersRef.current.get(beatId);
+      if (!player) return;
+      player.pause();
+      player.removeAttribute('src');
+      player.load();
+      clipPlayersRef.current.delete(beatId);
+  };
+
+  // Puts each on-screen clip's player at the frame its beat has reached (playing along, with its audio,
+  // while the A-roll plays) and pauses the rest; returns the frames they have ready
+  const syncClips = (time: number, isPlaying: boolean): ImageSources => {
+      const players = clipPlayersRef.current;
+      const visible = getVisibleClipBeats(latest.current.scene.beats, time);
+      players.forEach((player, beatId) => {
+          if (!player.paused && !visible.some(b => b.id === beatId)) player.pause();
+      });
+
+      const frames: ImageSources = {};
+      for (const beat of visible) {
+          const clip = beat.bRollClip!;
+          let player = players.get(beat.id);
+          if (player && player.dataset.url !== clip.url) {
+              releasePlayer(beat.id);
+              player = undefined;
+          }
+          if (!player) {
+              player = document.createElement('video');
+              player.crossOrigin = 'anonymous';
+              player.playsInline = true;
+              player.preload = 'auto';
+              player.dataset.url = clip.url;
+              player.addEventListener('seeked', redraw);
+              player.addEventListener('loadeddata', redraw);
+              player.src = clip.url;
+              players.set(beat.id, player);
+          }
+
+          const local = time - beat.startTime;
+          const target = getClipTime(clip, local);
+          player.muted = !isClipAudible(beat, time);
+          player.volume = clip.volume;
+          if (isPlaying && !isClipFrozen(clip, local)) {
+              if (Math.abs(player.currentTime - target) > CLIP_DRIFT_TOLERANCE) player.currentTime = target;
+              if (player.paused) player.play().catch(() => {});
+          } else {
+              if (!player.paused) player.pause();
+              if (Math.abs(player.currentTime - target) > CLIP_SEEK_TOLERANCE) player.currentTime = target;
+          }
+
+          const source = getVideoSource(player);
+          if (source) frames[beat.id] = source;
+      }
+      return frames;
+  };
+
+  const draw = (time: number) => {
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (!canvas || !ctx) return;
+
+      // Match the backing store to the displayed size so the frame stays crisp
+      const dpr = window.devicePixelRatio || 1;
+      const width = Math.round(canvas.clientWidth * dpr);
+      const height = Math.round(canvas.clientHeight * dpr);
+      if (width === 0 || height === 0) return;
+      if (canvas.width !== width || canvas.height !== height) {
+          canvas.width = width;
+          canvas.height = height;
+      }
+
+      drawComposite(ctx, width, height, latest.current.scene, time, {
+          aRoll: getVideoSource(videoRef.current),
+          images: imagesRef.current,
+          clips: syncClips(time, latest.current.isPlaying)
+      });
+  };
+
+  const redraw = () => {
+      const { currentTime, isPlaying } = latest.current;
+      draw(isPlaying ? videoRef.current?.currentTime ?? currentTime : currentTime);
+  };
+
+  useEffect(() => {
+      if (!isPlaying) {
+          draw(currentTime);
+          return;
+      }
+
+      let frame = 0;
+      const loop = () => {
+          draw(videoRef.current?.currentTime ?? currentTime);
+          frame = requestAnimationFrame(loop);
+      };
+      frame = requestAnimationFrame(loop);
+      return () => cancelAnimationFrame(frame);
+  }, [isPlaying, currentTime, scene]);
+
+  useEffect(() => {
+      let cancelled = false;
+      loadSceneImages(scene, imagesRef.current).then(() => { if (!cancelled) redraw(); });
+      return () => { cancelled = true; };
+  }, [scene.beats, scene.brandKit]);
+
+  useEffect(() => {
+      // Players of clips that were removed (or replaced by a slideshow or collage, or whose beat was) are released
+      for (const beatId of [...clipPlayersRef.current.keys()]) {
+          if (!scene.beats.some(b => b.id === beatId && playsClip(b))) releasePlayer(beatId);
+      }
+  }, [scene.beats]);
+
+  useEffect(() => () => {
+      for (const beatId of [...clipPlayersRef.current.keys()]) releasePlayer(beatId);
+  }, []);
+
+  useEffect(() => {
+      // Caption and overlay fonts may still be loading on first paint
+      const fonts = getSceneFonts(scene);
+      if (fonts.length === 0) return;
+      Promise.all(fonts.map(font => document.fonts.load(getTextOverlayFont(font, 32)))).then(redraw).catch(() => {});
+  }, [scene.captionSettings, scene.textOverlays, scene.brandKit]);
+
+  useEffect(() => {
+      // A paused seek only has the new frame once the video reports it
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      if (!video || !canvas) return;
+      video.addEventListener('seeked', redraw);
+      video.addEventListener('loadeddata', redraw);
+      const observer = new ResizeObserver(redraw);
+      observer.observe(canvas);
+      return () => {
+          video.removeEventListener('seeked', redraw);
+          video.removeEventListener('loadeddata', redraw);
+          observer.disconnect();
+      };
+  }, []);
+
+  return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" onClick={onClick} />;
+};
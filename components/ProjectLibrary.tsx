@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import { Music, Plus, Search, Copy, Trash2, Pencil, Check, X, Image as ImageIcon, Clock, Layers, FolderOpen, Loader2 } from 'lucide-react';
+import { ProjectSummary } from '../types';
+
+interface ProjectLibraryProps {
+  projects: ProjectSummary[];
+  isLoading: boolean;
+  importAccept: string;
+  onCreate: (name: string) => void;
+  onOpen: (id: string) => void;
+  onDuplicate: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => void;
+}
+
+const formatDuration = (t: number) => {
+  const m = Math.floor(t / 60);
+  const s = Math.floor(t % 60);
+  return `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+const formatUpdated = (ts: number) => {
+  const diff = Date.now() - ts;
+  if (diff < 60_000) return 'Just now';
+  if (diff < 3_600_000) return `${Math.floor(diff / 60_000)}m ago`;
+  if (diff < 86_400_000) return `${Math.floor(diff / 3_600_000)}h ago`;
+  return new Date(ts).toLocaleDateString();
+};
+
+export const ProjectLibrary: React.FC<ProjectLibraryProps> = ({
+  projects,
+  isLoading,
+  importAccept,
+  onCreate,
+  onOpen,
+  onDuplicate,
+  onRename,
+  onDelete,
+  onImport
+}) => {
+  const [query, setQuery] = useState("");
+  const [newName, setNewName] = useState("");
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameText, setRenameText] = useState("");
+
+  const filtered = projects.filter(p => p.name.toLowerCase().includes(query.trim().toLowerCase()));
+
+  const handleCreate = () => {
+      onCreate(newName);
+      setNewName("");
+  };
+
+  const startRename = (e: React.MouseEvent, project: ProjectSummary) => {
+      e.stopPropagation();
+      setRenamingId(project.id);
+      setRenameText(project.name);
+  };
+
+  const submitRename = (id: string) => {
+      if (renameText.trim()) onRename(id, renameText);
+      setRenamingId(null);
+  };
+
+  const handleDelete = (e: React.MouseEvent, project: ProjectSummary) => {
+      e.stopPropagation();
+      if (window.confirm(`Delete "${project.name}"? This cannot be undone.`)) {
+          onDelete(project.id);
+      }
+  };
+
+  const handleImportChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = "";
+      if (file) onImport(file);
+  };
+
+  return (
+    <div className="h-full flex flex-col overflow-hidden">
+      {/* Header */}
+      <header className="h-14 px-6 glass-panel border-b border-border flex items-center justify-between shrink-0 z-50">
+          <div className="flex items-center gap-3">
+              <div className="w-8 h-8 rounded-lg bg-gradient-to-br from-primary to-secondary flex items-center justify-center shadow-lg shadow-primary/20">
+                  <Music size={18} className="text-white fill-white" />
+              </div>
+              <div className="flex flex-col">
+                  <h1 className="text-sm font-bold bg-clip-text text-transparent bg-gradient-to-r from-text-main to-text-muted tracking-tight">
+                      Remixer Beats <span className="text-primary">AI</span>
+                  </h1>
+                  <span className="text-[10px] text-text-muted font-medium tracking-wide">PROJECTS</span>
+              </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+              <div className="relative">
+                  <Search size={12} className="absolute left-2.5 top-2.5 text-text-muted" />
+                  <input
+                      value={query}
+                      onChange={(e) => setQuery(e.target.value)}
+                      placeholder="Search projects..."
+                      className="w-56 glass-input rounded-lg pl-8 pr-3 py-1.5 text-xs text-text-main"
+                  />
+              </div>
+              <label className="flex items-center gap-2 px-3 py-1.5 glass-button rounded-lg text-xs font-semibold cursor-pointer">
+                  <FolderOpen size={14} /> Import
+                  <input type="file" accept={importAccept} onChange={handleImportChange} className="hidden" />
+              </label>
+          </div>
+      </header>
+
+      {/* Grid */}
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-8">
+          <div className="grid grid-cols-[repeat(auto-fill,minmax(220px,1fr))] gap-5">
+
+              {/* New Project Card */}
+              <div className="rounded-xl border border-dashed border-border bg-surface/30 p-4 flex flex-col gap-3 justify-center min-h-[220px]">
+                  <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center text-primary">
+                      <Plus size={18} />
+                  </div>
+                  <input
+                      value={newName}
+                      onChange={(e) => setNewName(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+                      placeholder="Project name"
+                      className="w-full glass-input rounded-lg px-3 py-2 text-xs text-text-main"
+                  />
+                  <button
+                      onClick={handleCreate}
+                      className="px-4 py-2 bg-gradient-to-r from-primary to-secondary hover:from-primary/80 hover:to-secondary/80 text-white rounded-lg text-[10px] font-bold uppercase tracking-wide shadow-lg shadow-primary/20 flex items-center justify-center gap-2 transition"
+                  >
+                      <Plus size={12} /> New Project
+                  </button>
+              </div>
+
+              {isLoading && (
+                  <div className="flex items-center justify-center min-h-[220px] text-text-muted">
+                      <Loader2 size={20} className="animate-spin" />
+                  </div>
+              )}
+
+              {!isLoading && filtered.map(project => (
+                  <div
+                      key={project.id}
+                      onClick={() => renamingId !== project.id && onOpen(project.id)}
+                      className="group glass-card rounded-xl overflow-hidden cursor-pointer flex flex-col"
+                  >
+                      <div className="aspect-video bg-black/40 relative overflow-hidden">
+                          {project.thumbnail ? (
+                              <img src={project.thumbnail} className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300" alt={project.name} />
+                          ) : (
+                              <div className="w-full h-full flex items-center justify-center text-text-muted"><ImageIcon size={20} className="opacity-30" /></div>
+                          )}
+                          <div className="absolute top-2 right-2 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                              <button onClick={(e) => startRename(e, project)} className="p-1.5 rounded-md bg-black/60 text-gray-300 hover:text-white backdrop-blur" title="Rename"><Pencil size={10} /></button>
+                              <button onClick={(e) => { e.stopPropagation(); onDuplicate(project.id); }} className="p-1.5 rounded-md bg-black/60 text-gray-300 hover:text-white backdrop-blur" title="Duplicate"><Copy size={10} /></button>
+                              <button onClick={(e) => handleDelete(e, project)} className="p-1.5 rounded-md bg-black/60 text-gray-300 hover:text-red-400 backdrop-blur" title="Delete"><Trash2 size={10} /></button>
+                          </div>
+                      </div>
+
+                      <div className="p-3 flex flex-col gap-1.5">
+                          {renamingId === project.id ? (
+                              <div className="flex gap-1" onClick={(e) => e.stopPropagation()}>
+                                  <input
+                                      autoFocus
+                                      value={renameText}
+                                      onChange={(e) => setRenameText(e.target.value)}
+                                      onKeyDown={(e) => {
+                                          if (e.key === 'Enter') submitRename(project.id);
+                                          if (e.key === 'Escape') setRenamingId(null);
+                                      }}
+                                      className="flex-1 min-w-0 glass-input rounded px-2 py-1 text-xs text-text-main"
+                                  />
+                                  <button onClick={() => submitRename(project.id)} className="p-1 rounded hover:bg-text-main/5 text-emerald-400"><Check size={12} /></button>
+                                  <button onClick={() => setRenamingId(null)} className="p-1 rounded hover:bg-text-main/5 text-text-muted"><X size={12} /></button>
+                              </div>
+                          ) : (
+                              <span className="text-xs font-semibold text-text-main truncate">{project.name}</span>
+                          )}
+                          <div className="flex items-center gap-3 text-[10px] text-text-muted font-mono">
+                              <span className="flex items-center gap-1"><Clock size={10} /> {formatDuration(project.duration)}</span>
+                              <span className="flex items-center gap-1"><Layers size={10} /> {project.beatCount}</span>
+                              <span className="ml-auto font-sans">{formatUpdated(project.updatedAt)}</span>
+                          </div>
+                      </div>
+                  </div>
+              ))}
+          </div>
+
+          {!isLoading && projects.length > 0 && filtered.length === 0 && (
+              <p className="text-xs text-text-muted text-center mt-10">No projects match "{query}".</p>
+          )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+import React from 'react';
+import { ListVideo, X, Download, Loader2, CheckCircle2, AlertCircle, Ban, Clock, Trash2 } from 'lucide-react';
+import { RenderJob, RenderJobStatus } from '../hooks/useRenderQueue';
+import { formatEta } from '../utils/renderUtils';
+
+interface RenderQueuePanelProps {
+  isOpen: boolean;
+  jobs: RenderJob[];
+  onCancel: (id: string) => void;
+  onRemove: (id: string) => void;
+  onClearFinished: () => void;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<RenderJobStatus, string> = {
+  queued: 'Queued',
+  rendering: 'Rendering',
+  done: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled'
+};
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const StatusIcon: React.FC<{ status: RenderJobStatus }> = ({ status }) => {
+  switch (status) {
+    case 'queued': return <Clock size={12} className="text-text-muted" />;
+    case 'rendering': return <Loader2 size={12} className="text-primary animate-spin" />;
+    case 'done': return <CheckCircle2 size={12} className="text-emerald-400" />;
+    case 'failed': return <AlertCircle size={12} className="text-red-400" />;
+    case 'cancelled': return <Ban size={12} className="text-text-muted" />;
+  }
+};
+
+export const RenderQueuePanel: React.FC<RenderQueuePanelProps> = ({ isOpen, jobs, onCancel, onRemove, onClearFinished, onClose }) => {
+  if (!isOpen) return null;
+
+  const hasFinished = jobs.some(job => job.status !== 'queued' && job.status !== 'rendering');
+
+  return (
+    <div className="absolute top-full right-0 mt-2 w-80 max-h-[60vh] glass-panel rounded-xl shadow-2xl flex flex-col overflow-hidden animate-slide-up z-[60]">
+        <div className="h-10 px-3 border-b border-border flex items-center justify-between shrink-0">
+            <span className="text-[10px] font-bold text-text-muted uppercase tracking-widest flex items-center gap-2">
+                <ListVideo size={12} /> Render Queue
+            </span>
+            <div className="flex items-center gap-1">
+                <button onClick={onClearFinished} disabled={!hasFinished} className="px-2 py-0.5 rounded text-[9px] font-bold uppercase text-text-muted hover:text-text-main hover:bg-text-main/5 disabled:opacity-30 disabled:cursor-not-allowed">Clear finished</button>
+                <div className="w-px h-3 bg-border mx-1"></div>
+                <button onClick={onClose} className="p-1 rounded hover:bg-text-main/5 text-text-muted hover:text-text-main"><X size={12} /></button>
+            </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-1">
+            {jobs.length === 0 && (
+                <p className="px-3 py-6 text-center text-[11px] text-text-muted">No exports yet. Queued exports render one after another while you keep editing.</p>
+            )}
+            {jobs.map(job => (
+                <div key={job.id} className="px-2.5 py-2 rounded-md hover:bg-text-main/5 group">
+                    <div className="flex items-center gap-2">
+                        <StatusIcon status={job.status} />
+                        <span className="flex-1 text-[11px] text-text-main truncate" title={job.label}>{job.label}</span>
+                        {job.output && (
+                            <a href={job.output.url} download={job.output.fileName} className="p-1 rounded hover:bg-text-main/5 text-text-muted hover:text-primary" title={`Download ${job.output.fileName}`}>
+                                <Download size={12} />
+                            </a>
+                        )}
+                        {job.status === 'queued' || job.status === 'rendering' ? (
+                            <button onClick={() => onCancel(job.id)} className="p-1 rounded hover:bg-text-main/5 text-text-muted hover:text-red-400" title="Cancel"><X size={12} /></button>
+                        ) : (
+                            <button onClick={() => onRemove(job.id)} className="p-1 rounded hover:bg-text-main/5 text-text-muted hover:text-red-400 opacity-0 group-hover:opacity-100" title="Remove"><Trash2 size={12} /></button>
+                        )}
+                    </div>
+
+                    {job.status === 'rendering' && job.progress && (
+                        <div className="mt-1.5 pl-5 space-y-1">
+                            <div className="h-1 bg-text-main/10 rounded-full overflow-hidden">
+                                <div className="h-full bg-gradient-to-r from-primary to-secondary transition-all" style={{ width: `${job.progress.progress * 100}%` }} />
+                            </div>
+                            <div className="flex justify-between text-[9px] font-mono text-text-muted">
+                                <span>{Math.round(job.progress.progress * 100)}% · frame {job.progress.frame}/{job.progress.totalFrames}</span>
+                                <span>{job.progress.etaSeconds !== null ? `${formatEta(job.progress.etaSeconds)} left` : 'Starting…'}</span>
+                            </div>
+                        </div>
+                    )}
+
+                    {job.status !== 'rendering' && (
+                        <div className="mt-0.5 pl-5 text-[9px] font-mono text-text-muted truncate">
+                            {STATUS_LABELS[job.status]}
+                            {job.output && ` · ${formatBytes(job.output.size)} · ${job.output.format.toUpperCase()}${job.output.hasAudio ? '' : ' · no audio'}`}
+                            {job.error && <span className="text-red-400" title={job.error}> · {job.error}</span>}
+                        </div>
+                    )}
+                </div>
+            ))}
+        </div>
+    </div>
+  );
+};
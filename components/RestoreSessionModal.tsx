@@ -0,0 +1,63 @@
+import React from 'react';
+import { History, RotateCcw, LayoutGrid } from 'lucide-react';
+import { ProjectState } from '../types';
+
+interface RestoreSessionModalProps {
+  projectName?: string;
+  recoveredState: ProjectState | null;
+  onRestore: () => void;
+  onDiscard: () => void;
+}
+
+export const RestoreSessionModal: React.FC<RestoreSessionModalProps> = ({ projectName, recoveredState, onRestore, onDiscard }) => {
+  if (!recoveredState) return null;
+
+  const summary = [
+    `${recoveredState.beats.length} beat${recoveredState.beats.length === 1 ? '' : 's'}`,
+    `${recoveredState.audioClips.length} audio clip${recoveredState.audioClips.length === 1 ? '' : 's'}`,
+    `${recoveredState.videoComments.length} note${recoveredState.videoComments.length === 1 ? '' : 's'}`,
+    recoveredState.aRollVideoUrl ? 'A-roll video' : 'no A-roll'
+  ].join(' · ');
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-fade-in">
+      <div className="w-full max-w-md bg-[#09090b] border border-white/10 rounded-2xl shadow-2xl overflow-hidden flex flex-col">
+
+        {/* Header */}
+        <div className="px-5 py-4 border-b border-white/5 flex items-center gap-2 bg-white/[0.02]">
+            <div className="w-8 h-8 rounded-lg bg-gradient-to-br from-amber-500 to-orange-500 flex items-center justify-center shadow-lg shadow-amber-500/20">
+                <History size={16} className="text-white" />
+            </div>
+            <h2 className="text-sm font-bold text-white tracking-wide">Restore Previous Session?</h2>
+        </div>
+
+        {/* Body */}
+        <div className="p-6 space-y-3">
+            <p className="text-xs text-gray-400 leading-relaxed">
+                The editor didn't close cleanly while <span className="text-white font-semibold">{projectName || 'a project'}</span> was open. Pick up where the autosave left off?
+            </p>
+            <div className="px-3 py-2 rounded-lg bg-white/5 border border-white/5 text-[10px] font-mono text-gray-300">
+                {summary}
+            </div>
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 bg-white/[0.02] border-t border-white/5 flex justify-end gap-2">
+            <button
+                onClick={onDiscard}
+                className="px-4 py-2.5 rounded-xl text-xs font-bold uppercase tracking-wide text-gray-400 hover:text-white hover:bg-white/5 flex items-center gap-2 transition"
+            >
+                <LayoutGrid size={14} /> All Projects
+            </button>
+            <button
+                onClick={onRestore}
+                className="px-6 py-2.5 bg-gradient-to-r from-primary to-secondary hover:from-primary/80 hover:to-secondary/80 text-white rounded-xl text-xs font-bold uppercase tracking-wide shadow-lg shadow-primary/20 flex items-center gap-2 transition transform active:scale-95"
+            >
+                <RotateCcw size={14} /> Restore
+            </button>
+        </div>
+
+      </div>
+    </div>
+  );
+};
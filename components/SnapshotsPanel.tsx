@@ -0,0 +1,183 @@
+import React, { useState, useMemo } from 'react';
+import { X, Bookmark, Plus, RotateCcw, GitBranch, Trash2, ChevronDown, ChevronRight, Loader2 } from 'lucide-react';
+import { ProjectSnapshot, ProjectState } from '../types';
+import { diffProjects, isEmptyDiff, ProjectDiff } from '../utils/projectDiff';
+
+interface SnapshotsPanelProps {
+  isOpen: boolean;
+  snapshots: ProjectSnapshot[];
+  isLoading: boolean;
+  currentState: ProjectState;
+  onClose: () => void;
+  onCreate: (name: string) => void;
+  onRestore: (snapshot: ProjectSnapshot) => void;
+  onFork: (snapshot: ProjectSnapshot) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatSeconds = (t: number) => `${t.toFixed(1)}s`;
+
+const truncate = (text: string, max = 48) => text.length > max ? `${text.slice(0, max)}…` : text;
+
+const DiffDetails: React.FC<{ diff: ProjectDiff }> = ({ diff }) => {
+  if (isEmptyDiff(diff)) {
+      return <p className="text-[10px] text-gray-500 italic">Identical to the current project.</p>;
+  }
+
+  const rows: { tone: string; label: string; items: string[] }[] = [
+      { tone: 'text-emerald-400', label: 'Beats added', items: diff.beatsAdded.map(b => `${formatSeconds(b.startTime)} ${truncate(b.textSegment)}`) },
+      { tone: 'text-red-400', label: 'Beats removed', items: diff.beatsRemoved.map(b => `${formatSeconds(b.startTime)} ${truncate(b.textSegment)}`) },
+      { tone: 'text-amber-400', label: 'Beats retimed', items: diff.beatsRetimed.map(r => `${formatSeconds(r.from.startTime)}–${formatSeconds(r.from.endTime)} → ${formatSeconds(r.to.startTime)}–${formatSeconds(r.to.endTime)} ${truncate(r.beat.textSegment, 24)}`) },
+      { tone: 'text-sky-400', label: 'Images changed', items: diff.imagesChanged.map(c => `${truncate(c.beat.textSegment)} (${c.from === c.to ? 'changed' : c.from ? (c.to ? 'replaced' : 'removed') : 'added'})`) },
+      { tone: 'text-emerald-400', label: 'Script blocks added', items: diff.scriptBlocksAdded.map(b => truncate(b.content.replace(/<[^>]*>?/gm, '')) || '(empty)') },
+      { tone: 'text-red-400', label: 'Script blocks removed', items: diff.scriptBlocksRemoved.map(b => truncate(b.content.replace(/<[^>]*>?/gm, '')) || '(empty)') },
+      { tone: 'text-amber-400', label: 'Script blocks edited', items: diff.scriptBlocksEdited.map(e => `"${truncate(e.before, 24)}" → "${truncate(e.after, 24)}"`) }
+  ];
+
+  return (
+      <div className="space-y-2">
+          {rows.filter(r => r.items.length > 0).map(row => (
+              <div key={row.label}>
+                  <div className={`text-[9px] font-bold uppercase tracking-wide ${row.tone}`}>{row.label} ({row.items.length})</div>
+                  <ul className="mt-0.5 space-y-0.5">
+                      {row.items.map((item, i) => (
+                          <li key={i} className="text-[10px] text-gray-400 font-mono leading-snug">{item}</li>
+                      ))}
+                  </ul>
+              </div>
+          ))}
+          {diff.layoutChanged && <div className="text-[10px] text-gray-400">Layout mode changed</div>}
+          {diff.aRollChanged && <div className="text-[10px] text-gray-400">A-roll video changed</div>}
+      </div>
+  );
+};
+
+const DiffSummary: React.FC<{ diff: ProjectDiff }> = ({ diff }) => {
+  const parts = [
+      diff.beatsAdded.length && `+${diff.beatsAdded.length} beats`,
+      diff.beatsRemoved.length && `−${diff.beatsRemoved.length} beats`,
+      diff.beatsRetimed.length && `${diff.beatsRetimed.length} retimed`,
+      diff.imagesChanged.length && `${diff.imagesChanged.length} images`,
+      (diff.scriptBlocksAdded.length + diff.scriptBlocksRemoved.length + diff.scriptBlocksEdited.length) && 'script edited'
+  ].filter(Boolean);
+
+  return (
+      <span className="text-[10px] text-gray-500 font-mono truncate">
+          {parts.length > 0 ? parts.join(' · ') : isEmptyDiff(diff) ? 'no changes' : 'settings changed'}
+      </span>
+  );
+};
+
+export const SnapshotsPanel: React.FC<SnapshotsPanelProps> = ({
+  isOpen,
+  snapshots,
+  isLoading,
+  currentState,
+  onClose,
+  onCreate,
+  onRestore,
+  onFork,
+  onDelete
+}) => {
+  const [name, setName] = useState("");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  // Diff is "what changed in the current project since this snapshot"
+  const diffs = useMemo(() => {
+      if (!isOpen) return new Map<string, ProjectDiff>();
+      return new Map(snapshots.map(s => [s.id, diffProjects(s.state, currentState)]));
+  }, [isOpen, snapshots, currentState]);
+
+  const handleCreate = () => {
+      onCreate(name);
+      setName("");
+  };
+
+  return (
+    <>
+      {isOpen && <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-40 transition-opacity" onClick={onClose} />}
+
+      <div className={`fixed top-0 right-0 bottom-0 w-[400px] bg-[#09090b] border-l border-white/10 z-50 flex flex-col shadow-2xl transition-transform duration-300 ease-out transform ${isOpen ? 'translate-x-0' : 'translate-x-full'}`}>
+
+        {/* Header */}
+        <div className="h-14 px-5 border-b border-white/5 flex items-center justify-between bg-zinc-900/50 backdrop-blur-md z-10">
+          <div className="flex items-center gap-3">
+            <div className="w-8 h-8 rounded-full bg-amber-500/10 flex items-center justify-center">
+                <Bookmark size={16} className="text-amber-400" />
+            </div>
+            <div>
+                <h2 className="text-sm font-bold text-white">Snapshots</h2>
+                <span className="text-[10px] text-gray-500 font-medium">Named versions of this project</span>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-lg text-gray-500 hover:text-white hover:bg-white/5 transition"><X size={16} /></button>
+        </div>
+
+        {/* Create */}
+        <div className="p-4 border-b border-white/5 flex gap-2">
+            <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+                placeholder='e.g. "v1 sent to client"'
+                className="flex-1 bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-xs text-white placeholder-gray-500 focus:outline-none focus:border-primary/50"
+            />
+            <button
+                onClick={handleCreate}
+                className="px-3 py-2 rounded-lg bg-primary hover:bg-primary/90 text-white text-[10px] font-bold uppercase tracking-wide flex items-center gap-1.5 transition shadow-lg shadow-primary/20"
+            >
+                <Plus size={12} /> Save
+            </button>
+        </div>
+
+        {/* List */}
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-3 space-y-2">
+            {isLoading && (
+                <div className="flex justify-center py-8 text-gray-500"><Loader2 size={18} className="animate-spin" /></div>
+            )}
+
+            {!isLoading && snapshots.length === 0 && (
+                <div className="flex flex-col items-center justify-center h-40 text-gray-600 gap-2">
+                    <Bookmark size={24} className="opacity-20" />
+                    <p className="text-[10px] text-center px-8">Save a snapshot before big changes so you can compare, restore or fork it later.</p>
+                </div>
+            )}
+
+            {!isLoading && snapshots.map(snapshot => {
+                const diff = diffs.get(snapshot.id);
+                const isExpanded = expandedId === snapshot.id;
+                return (
+                    <div key={snapshot.id} className="group rounded-lg border border-white/5 bg-white/5 hover:border-white/10 transition-all">
+                        <button onClick={() => setExpandedId(isExpanded ? null : snapshot.id)} className="w-full p-3 flex items-start gap-2 text-left">
+                            {isExpanded ? <ChevronDown size={12} className="text-gray-500 mt-0.5" /> : <ChevronRight size={12} className="text-gray-500 mt-0.5" />}
+                            <div className="flex-1 min-w-0 flex flex-col gap-0.5">
+                                <span className="text-xs font-semibold text-gray-200 truncate">{snapshot.name}</span>
+                                <span className="text-[9px] text-gray-500">{new Date(snapshot.createdAt).toLocaleString()} · {snapshot.state.beats.length} beats</span>
+                                {diff && <DiffSummary diff={diff} />}
+                            </div>
+                        </button>
+
+                        {isExpanded && diff && (
+                            <div className="px-3 pb-3 pl-8 space-y-3 animate-fade-in">
+                                <DiffDetails diff={diff} />
+                                <div className="flex gap-1.5 pt-2 border-t border-white/5">
+                                    <button onClick={() => onRestore(snapshot)} className="flex-1 py-1.5 rounded-md bg-white/10 hover:bg-white/20 text-white text-[10px] font-bold uppercase flex items-center justify-center gap-1.5 transition"><RotateCcw size={10} /> Restore</button>
+                                    <button onClick={() => onFork(snapshot)} className="flex-1 py-1.5 rounded-md bg-white/10 hover:bg-white/20 text-white text-[10px] font-bold uppercase flex items-center justify-center gap-1.5 transition"><GitBranch size={10} /> Fork</button>
+                                    <button
+                                        onClick={() => window.confirm(`Delete snapshot "${snapshot.name}"?`) && onDelete(snapshot.id)}
+                                        className="px-2 py-1.5 rounded-md bg-red-500/10 hover:bg-red-500/20 text-red-300 transition"
+                                        title="Delete Snapshot"
+                                    >
+                                        <Trash2 size={10} />
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+      </div>
+    </>
+  );
+};
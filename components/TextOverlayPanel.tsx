@@ -0,0 +1,216 @@
+import React, { useState } from 'react';
+import { Type, X, Plus, Trash2, Clock } from 'lucide-react';
+import { Beat, TextOverlay, TextOverlayKind } from '../types';
+import { TEXT_ANIMATIONS, TEXT_OVERLAY_FONTS, TEXT_OVERLAY_KINDS, getOverlayTiming } from '../utils/textOverlays';
+
+interface TextOverlayPanelProps {
+  isOpen: boolean;
+  overlays: TextOverlay[];
+  beats: Beat[];
+  currentTime: number;
+  isBranded: boolean; // the brand kit sets the font and accent colour
+  onAdd: (kind: TextOverlayKind) => string; // id of the new overlay
+  onUpdate: (id: string, updates: Partial<TextOverlay>) => void;
+  onRemove: (id: string) => void;
+  onClose: () => void;
+}
+
+const Slider: React.FC<{ label: string; value: number; display: string; min: number; max: number; step: number; onChange: (value: number) => void }> = ({ label, value, display, min, max, step, onChange }) => (
+  <div className="space-y-1">
+      <div className="flex justify-between text-[10px] text-text-muted"><span>{label}</span><span>{display}</span></div>
+      <input type="range" min={min} max={max} step={step} value={value} onChange={(e) => onChange(parseFloat(e.target.value))} className="w-full accent-primary h-1 bg-text-main/10 rounded-lg appearance-none cursor-pointer" />
+  </div>
+);
+
+const ColorInput: React.FC<{ label: string; value: string; onChange: (value: string) => void }> = ({ label, value, onChange }) => (
+  <label className="flex items-center gap-1.5 text-[10px] text-text-muted cursor-pointer">
+      <input type="color" value={value} onChange={(e) => onChange(e.target.value)} className="w-5 h-5 rounded border border-border bg-transparent cursor-pointer" />
+      {label}
+  </label>
+);
+
+const formatTime = (t: number) => `${Math.floor(t / 60)}:${Math.floor(t % 60).toString().padStart(2, '0')}`;
+
+const SUBTEXT_LABELS: Record<TextOverlayKind, string> = {
+  'title': 'Subtitle',
+  'lower-third': 'Role',
+  'cta': 'Button',
+  'stat': 'Label'
+};
+
+export const TextOverlayPanel: React.FC<TextOverlayPanelProps> = ({ isOpen, overlays, beats, currentTime, isBranded, onAdd, onUpdate, onRemove, onClose }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  if (!isOpen) return null;
+
+  const selected = overlays.find(o => o.id === selectedId) ?? null;
+
+  // Detaching keeps the beat's current times, so the overlay doesn't jump
+  const setAttachment = (overlay: TextOverlay, beatId: string | null) => {
+      const { start, end } = getOverlayTiming(overlay, beats);
+      onUpdate(overlay.id, { beatId, startTime: start, endTime: end });
+  };
+
+  const setFreeTime = (overlay: TextOverlay, field: 'startTime' | 'endTime', value: number) => {
+      const time = Math.max(0, Math.round(value * 10) / 10);
+      onUpdate(overlay.id, field === 'startTime'
+          ? { startTime: time, endTime: Math.max(time, overlay.endTime) }
+          : { endTime: Math.max(overlay.startTime, time) });
+  };
+
+  const describeTiming = (overlay: TextOverlay) => {
+      const index = overlay.beatId ? beats.findIndex(b => b.id === overlay.beatId) : -1;
+      if (index >= 0) return `Beat ${index + 1}`;
+      return `${formatTime(overlay.startTime)}–${formatTime(overlay.endTime)}`;
+  };
+
+  return (
+    <div className="absolute top-full right-0 mt-2 w-80 max-h-[70vh] glass-panel rounded-xl shadow-2xl flex flex-col overflow-hidden animate-slide-up z-[60]">
+        <div className="h-10 px-3 border-b border-border flex items-center justify-between shrink-0">
+            <span className="text-[10px] font-bold text-text-muted uppercase tracking-widest flex items-center gap-2">
+                <Type size={12} /> Text Overlays
+            </span>
+            <button onClick={onClose} className="p-1 rounded hover:bg-text-main/5 text-text-muted hover:text-text-main"><X size={12} /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-3 space-y-4">
+            {/* Add */}
+            <div className="grid grid-cols-2 gap-1">
+                {TEXT_OVERLAY_KINDS.map(kind => (
+                    <button
+                        key={kind.value}
+                        onClick={() => setSelectedId(onAdd(kind.value))}
+                        className="h-7 px-2 rounded-md flex items-center gap-1.5 text-[10px] font-bold border border-border bg-surface text-text-muted hover:text-text-main transition-colors"
+                    >
+                        <Plus size={10} /> {kind.label}
+                    </button>
+                ))}
+            </div>
+            <p className="text-[9px] text-text-muted leading-relaxed">New overlays attach to the beat under the playhead ({formatTime(currentTime)}), or run for a few seconds from it.</p>
+
+            {/* List */}
+            {overlays.length > 0 && (
+                <div className="space-y-1 pt-3 border-t border-border">
+                    {overlays.map(overlay => (
+                        <div
+                            key={overlay.id}
+                            onClick={() => setSelectedId(overlay.id === selectedId ? null : overlay.id)}
+                            className={`px-2 py-1.5 rounded-md flex items-center gap-2 cursor-pointer group ${overlay.id === selectedId ? 'bg-primary/10 ring-1 ring-primary/30' : 'hover:bg-text-main/5'}`}
+                        >
+                            <span className="text-[9px] font-bold uppercase text-text-muted w-16 shrink-0 truncate">{TEXT_OVERLAY_KINDS.find(k => k.value === overlay.kind)?.label}</span>
+                            <span className="flex-1 text-[11px] text-text-main truncate">{overlay.text || 'Untitled'}</span>
+                            <span className="text-[9px] font-mono text-text-muted shrink-0">{describeTiming(overlay)}</span>
+                            <button
+                                onClick={(e) => { e.stopPropagation(); onRemove(overlay.id); }}
+                                className="p-1 rounded hover:bg-text-main/5 text-text-muted hover:text-red-400 opacity-0 group-hover:opacity-100"
+                                title="Delete"
+                            >
+                                <Trash2 size={10} />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {/* Selected */}
+            {selected && (
+                <div className="space-y-3 pt-3 border-t border-border">
+                    <div className="space-y-1.5">
+                        <input
+                            value={selected.text}
+                            onChange={(e) => onUpdate(selected.id, { text: e.target.value })}
+                            placeholder="Text"
+                            className="w-full bg-surface border border-border rounded-md px-2 py-1.5 text-xs text-text-main focus:outline-none focus:border-primary/50"
+                        />
+                        <input
+                            value={selected.subtext}
+                            onChange={(e) => onUpdate(selected.id, { subtext: e.target.value })}
+                            placeholder={`${SUBTEXT_LABELS[selected.kind]} (optional)`}
+                            className="w-full bg-surface border border-border rounded-md px-2 py-1.5 text-xs text-text-main focus:outline-none focus:border-primary/50"
+                        />
+                    </div>
+
+                    {/* Timing */}
+                    <div className="space-y-1.5">
+                        <label className="text-[10px] font-bold text-text-muted uppercase flex items-center gap-1.5"><Clock size={10} /> Timing</label>
+                        <select
+                            value={selected.beatId ?? ''}
+                            onChange={(e) => setAttachment(selected, e.target.value || null)}
+                            className="w-full bg-surface border border-border rounded-md px-2 py-1 text-[11px] text-text-main focus:outline-none"
+                        >
+                            <option value="">Free (own start and end)</option>
+                            {beats.map((beat, i) => (
+                                <option key={beat.id} value={beat.id}>Beat {i + 1} · {formatTime(beat.startTime)}–{formatTime(beat.endTime)}</option>
+                            ))}
+                        </select>
+                        {!selected.beatId && (
+                            <div className="grid grid-cols-2 gap-2">
+                                {(['startTime', 'endTime'] as const).map(field => (
+                                    <div key={field} className="flex items-center gap-1">
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            step={0.1}
+                                            value={selected[field]}
+                                            onChange={(e) => setFreeTime(selected, field, parseFloat(e.target.value) || 0)}
+                                            className="w-full bg-surface border border-border rounded-md px-2 py-1 text-[11px] font-mono text-text-main focus:outline-none"
+                                            title={field === 'startTime' ? 'Start (s)' : 'End (s)'}
+                                        />
+                                        <button onClick={() => setFreeTime(selected, field, currentTime)} className="px-1.5 py-1 rounded text-[9px] font-bold uppercase text-text-muted hover:text-text-main hover:bg-text-main/5" title="Set to playhead">Now</button>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Animation */}
+                    <div className="space-y-1.5">
+                        <label className="text-[10px] font-bold text-text-muted uppercase">Animation</label>
+                        <div className="flex flex-wrap gap-1">
+                            {TEXT_ANIMATIONS.filter(a => a.value !== 'count-up' || selected.kind === 'stat').map(animation => (
+                                <button
+                                    key={animation.value}
+                                    onClick={() => onUpdate(selected.id, { animation: animation.value })}
+                                    className={`px-2 py-1 rounded-md text-[10px] font-bold border transition-colors ${selected.animation === animation.value ? 'border-primary text-text-main bg-primary/10' : 'border-border text-text-muted hover:text-text-main'}`}
+                                >
+                                    {animation.label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    {/* Font */}
+                    <div className="space-y-1.5">
+                        <label className="text-[10px] font-bold text-text-muted uppercase">Font</label>
+                        {isBranded && <p className="text-[9px] text-text-muted">Font and accent colour come from the brand kit.</p>}
+                        <div className={`flex flex-wrap gap-1 ${isBranded ? 'opacity-40 pointer-events-none' : ''}`}>
+                            {TEXT_OVERLAY_FONTS.map(font => (
+                                <button
+                                    key={font}
+                                    onClick={() => onUpdate(selected.id, { fontFamily: font })}
+                                    className={`px-2 py-1 rounded-md text-[11px] border transition-colors ${selected.fontFamily === font ? 'border-primary text-text-main bg-primary/10' : 'border-border text-text-muted hover:text-text-main'}`}
+                                    style={{ fontFamily: font }}
+                                >
+                                    {font}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <Slider label="Size" value={selected.fontSize} display={`${selected.fontSize}%`} min={2} max={20} step={0.5} onChange={(fontSize) => onUpdate(selected.id, { fontSize })} />
+                    <div className="grid grid-cols-2 gap-3">
+                        <Slider label="X" value={selected.x} display={`${selected.x}%`} min={0} max={100} step={1} onChange={(x) => onUpdate(selected.id, { x })} />
+                        <Slider label="Y" value={selected.y} display={`${selected.y}%`} min={0} max={100} step={1} onChange={(y) => onUpdate(selected.id, { y })} />
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-2 pt-3 border-t border-border">
+                        <ColorInput label="Text" value={selected.textColor} onChange={(textColor) => onUpdate(selected.id, { textColor })} />
+                        <div className={isBranded ? 'opacity-40 pointer-events-none' : ''}>
+                            <ColorInput label="Accent" value={selected.accentColor} onChange={(accentColor) => onUpdate(selected.id, { accentColor })} />
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    </div>
+  );
+};
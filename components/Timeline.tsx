@@ -1,42 +1,76 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Beat, OverlayType, StyleSettings } from '../types';
-import { RefreshCw, Upload, Layout, Eye, EyeOff, Layers, Scissors, Sliders, X, Check, Merge, CheckSquare, Image as ImageIcon, Wand2, Palette, Plus, Settings2, User, MoreVertical, Play, ChevronRight, ChevronDown, Sparkles, Loader2, Maximize } from 'lucide-react';
+import { Beat, BeatCollage, BeatSlide, BeatSlideshow, BeatTransition, BrandKit, BRollClip, BRollKeyframe, BRollSettings, LayoutMode, OverlayType, PipCorner, PipSettings, SplitSettings, StyleSettings, TransitionType } from '../types';
+import { RefreshCw, Upload, Layout, Eye, EyeOff, Layers, Scissors, Sliders, X, Check, Merge, CheckSquare, Image as ImageIcon, Wand2, Palette, Plus, Settings2, User, MoreVertical, Play, ChevronRight, ChevronDown, ChevronUp, Sparkles, Loader2, Maximize, Film, Trash2, Clapperboard, Crop, PictureInPicture2, Stamp, Volume2, VolumeX, LayoutGrid } from 'lucide-react';
+import { TRANSITION_TYPES, TRANSITION_DURATION_LIMITS, createBeatTransition } from '../utils/transitions';
+import { EASING_TYPES } from '../utils/easing';
+import { addKeyframe, createKenBurnsKeyframes } from '../utils/keyframes';
+import { getBeatSettings, setFormatOverride } from '../utils/layoutModes';
+import { SPLIT_ORIENTATIONS, GUTTER_WIDTH_LIMITS, createSplitSettings, getGutterColor } from '../utils/splitLayout';
+import { PIP_CORNERS, PIP_SHAPES, PIP_SIZE_LIMITS, createPipSettings, getPipCornerPosition } from '../utils/pip';
+import { BRAND_FONTS, LOGO_SIZE_LIMITS } from '../utils/brandKit';
+import { CLIP_END_BEHAVIORS, MIN_CLIP_LENGTH, getClipLength } from '../utils/brollClips';
+import { createSlideshow, getSlideSpans, moveSlide, removeSlide, updateSlide } from '../utils/slideshow';
+import { COLLAGE_GUTTER_LIMITS, COLLAGE_LAYOUTS, COLLAGE_RADIUS_LIMITS, createCollage, getCollageCellCount, getCollageChoices, setCollageImage, setCollageLayout } from '../utils/collage';
 
 interface TimelineProps {
   beats: Beat[];
   currentTime: number;
+  layoutMode: LayoutMode;
   styleSettings: StyleSettings;
   isAnalyzing: boolean;
   onSeek: (time: number) => void;
   onUpdateBeat: (beatId: string, updates: Partial<Beat>) => void;
   onRegenerateImage: (beat: Beat) => void;
   onUploadImage: (beatId: string, file: File) => void;
+  onUploadClip: (beatId: string, file: File) => void;
+  onGenerateClip: (beatId: string, prompt: string) => void;
+  generatingClipIds: Set<string>;
   onSplitBeat: (beatId: string, startIdx: number, endIdx: number) => void;
   onMergeBeats: (beatIds: string[]) => void;
   onGenerateImage: (beatId: string, prompt: string) => void;
   onSelectImage: (beatId: string, imageUrl: string) => void;
   onUpdateStyleSettings: (settings: Partial<StyleSettings>) => void;
   onBulkGenerate: () => void;
+  onRenderBeat: (beat: Beat) => void;
 }
 
+// The layout button steps through the overlay types in this order
+const NEXT_OVERLAY: Record<OverlayType, OverlayType> = {
+  [OverlayType.FULL]: OverlayType.SPLIT,
+  [OverlayType.SPLIT]: OverlayType.PIP,
+  [OverlayType.PIP]: OverlayType.FULL
+};
+
+const OVERLAY_LABELS: Record<OverlayType, string> = {
+  [OverlayType.FULL]: 'Full Mode',
+  [OverlayType.SPLIT]: 'Split Mode',
+  [OverlayType.PIP]: 'Picture in Picture'
+};
+
 export const Timeline: React.FC<TimelineProps> = ({
   beats,
   currentTime,
+  layoutMode,
   styleSettings,
   isAnalyzing,
   onSeek,
   onUpdateBeat,
   onRegenerateImage,
   onUploadImage,
+  onUploadClip,
+  onGenerateClip,
+  generatingClipIds,
   onSplitBeat,
   onMergeBeats,
   onGenerateImage,
   onSelectImage,
   onUpdateStyleSettings,
-  onBulkGenerate
+  onBulkGenerate,
+  onRenderBeat
 }) => {
   const [expandedSettingsId, setExpandedSettingsId] = useState<string | null>(null);
   const [expandedImagePanelId, setExpandedImagePanelId] = useState<string | null>(null);
+  const [collageCell, setCollageCell] = useState<{ beatId: string; index: number } | null>(null); // Cell the next picked image goes into
   const [promptInputs, setPromptInputs] = useState<Record<string, string>>({});
   const [showGlobalSettings, setShowGlobalSettings] = useState(false); // Default closed for cleaner start
   
@@ -84,7 +118,9 @@ export const Timeline: React.FC<TimelineProps> = ({
       // However, App.tsx's handleUploadImage simply creates an object URL.
       // To properly fix the GIF issue, we should ideally convert it here and pass a blob or data URL, but onUploadImage expects a File.
       // For now, we will rely on the service-level fix for the API calls, but for Style References (which are data strings), we can fix it here.
-      onUploadImage(beatId, e.target.files[0]);
+      const file = e.target.files[0];
+      if (file.type.startsWith('video/')) onUploadClip(beatId, file);
+      else onUploadImage(beatId, file);
     }
   };
 
@@ -104,6 +140,20 @@ export const Timeline: React.FC<TimelineProps> = ({
       }
   };
 
+  const { brandKit } = styleSettings;
+
+  const updateBrandKit = (updates: Partial<BrandKit>) => {
+      onUpdateStyleSettings({ brandKit: { ...brandKit, ...updates } });
+  };
+
+  const handleLogoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+      if (e.target.files && e.target.files[0]) {
+          processImageUpload(e.target.files[0], (dataUrl) => {
+              updateBrandKit({ logo: dataUrl });
+          });
+      }
+  };
+
   const handleLocalBeatImageUpload = (beatId: string, field: 'referenceImage' | 'avatarImage', e: React.ChangeEvent<HTMLInputElement>) => {
       if (e.target.files && e.target.files[0]) {
           processImageUpload(e.target.files[0], (dataUrl) => {
@@ -132,6 +182,119 @@ export const Timeline: React.FC<TimelineProps> = ({
       setExpandedSettingsId(prev => prev === beatId ? null : beatId);
   };
 
+  // Switching type keeps the beat's duration and easing; a beat that never had one starts from the defaults
+  const setBeatTransitionType = (beat: Beat, type: TransitionType) => {
+      onUpdateBeat(beat.id, { transition: beat.transition ? { ...beat.transition, type } : createBeatTransition(type) });
+  };
+
+  const updateBeatTransition = (beat: Beat, updates: Partial<BeatTransition>) => {
+      onUpdateBeat(beat.id, { transition: { ...(beat.transition ?? createBeatTransition()), ...updates } });
+  };
+
+  // Saved projects reject negative times and non-positive scales
+  const clampKeyframeValue = (field: 'time' | 'x' | 'y' | 'scale' | 'rotation', value: number) => {
+      if (field === 'time') return Math.max(0, value);
+      if (field === 'scale') return Math.max(0.1, value);
+      return value;
+  };
+
+  const updateKeyframe = (beat: Beat, index: number, updates: Partial<BRollKeyframe>) => {
+      const keyframes = (beat.keyframes ?? []).map((k, i) => i === index ? { ...k, ...updates } : k);
+      onUpdateBeat(beat.id, { keyframes });
+  };
+
+  const removeKeyframe = (beat: Beat, index: number) => {
+      const keyframes = (beat.keyframes ?? []).filter((_, i) => i !== index);
+      onUpdateBeat(beat.id, { keyframes: keyframes.length > 0 ? keyframes : undefined });
+  };
+
+  // Transform sliders edit the current layout's override when the beat has one, otherwise the shared settings
+  const updateBRollSettings = (beat: Beat, updates: Partial<BRollSettings>) => {
+      const override = beat.formatOverrides?.[layoutMode];
+      if (override) onUpdateBeat(beat.id, setFormatOverride(beat, layoutMode, { ...override, ...updates }));
+      else onUpdateBeat(beat.id, { bRollSettings: { ...beat.bRollSettings, ...updates } });
+  };
+
+  // Starts from the shared framing so switching it on doesn't jump
+  const toggleFormatOverride = (beat: Beat) => {
+      onUpdateBeat(beat.id, setFormatOverride(beat, layoutMode, beat.formatOverrides?.[layoutMode] ? undefined : { ...beat.bRollSettings }));
+  };
+
+  // A beat switched to PIP for the first time gets an inset in the bottom-right corner
+  const cycleOverlayType = (beat: Beat) => {
+      const overlayType = NEXT_OVERLAY[beat.overlayType];
+      onUpdateBeat(beat.id, overlayType === OverlayType.PIP && !beat.pipSettings
+          ? { overlayType, pipSettings: createPipSettings(layoutMode) }
+          : { overlayType });
+  };
+
+  const updateSplitSettings = (beat: Beat, updates: Partial<SplitSettings>) => {
+      onUpdateBeat(beat.id, { splitSettings: { ...(beat.splitSettings ?? createSplitSettings()), ...updates } });
+  };
+
+  const updateClip = (beat: Beat, updates: Partial<BRollClip>) => {
+      if (beat.bRollClip) onUpdateBeat(beat.id, { bRollClip: { ...beat.bRollClip, ...updates } });
+  };
+
+  // The trimmed part never gets shorter than MIN_CLIP_LENGTH
+  const trimClip = (beat: Beat, field: 'trimStart' | 'trimEnd', value: number) => {
+      const clip = beat.bRollClip;
+      if (!clip) return;
+      updateClip(beat, field === 'trimStart'
+          ? { trimStart: Math.max(0, Math.min(value, clip.trimEnd - MIN_CLIP_LENGTH)) }
+          : { trimEnd: Math.min(clip.duration, Math.max(value, clip.trimStart + MIN_CLIP_LENGTH)) });
+  };
+
+  const updateSlideshow = (beat: Beat, slideshow: BeatSlideshow | undefined) => {
+      onUpdateBeat(beat.id, { slideshow });
+  };
+
+  const editSlide = (beat: Beat, index: number, updates: Partial<BeatSlide>) => {
+      if (beat.slideshow) updateSlideshow(beat, updateSlide(beat.slideshow, index, updates));
+  };
+
+  // A slide with its own framing starts from the beat's current one
+  const toggleSlideFraming = (beat: Beat, index: number) => {
+      const slide = beat.slideshow?.slides[index];
+      if (!slide) return;
+      const { x, y, scale } = beat.bRollSettings;
+      editSlide(beat, index, { bRollSettings: slide.bRollSettings ? undefined : { x, y, scale } });
+  };
+
+  const setSlideshowTransitionType = (beat: Beat, type: TransitionType) => {
+      if (!beat.slideshow) return;
+      const { transition } = beat.slideshow;
+      updateSlideshow(beat, { ...beat.slideshow, transition: transition ? { ...transition, type } : createBeatTransition(type) });
+  };
+
+  // A slideshow and a collage are two ways of showing several images, so switching one on switches the other off
+  const toggleSlideshow = (beat: Beat) => {
+      onUpdateBeat(beat.id, beat.slideshow ? { slideshow: undefined } : { slideshow: createSlideshow(beat, createBeatTransition()), collage: undefined });
+  };
+
+  const toggleCollage = (beat: Beat) => {
+      onUpdateBeat(beat.id, beat.collage ? { collage: undefined } : { collage: createCollage(beat), slideshow: undefined });
+  };
+
+  const updateCollage = (beat: Beat, updates: Partial<BeatCollage>) => {
+      if (beat.collage) onUpdateBeat(beat.id, { collage: { ...beat.collage, ...updates } });
+  };
+
+  const pickCollageImage = (beat: Beat, image: string) => {
+      if (!beat.collage) return;
+      const index = collageCell?.beatId === beat.id ? collageCell.index : 0;
+      onUpdateBeat(beat.id, { collage: setCollageImage(beat.collage, index, image) });
+  };
+
+  const updatePipSettings = (beat: Beat, updates: Partial<PipSettings>) => {
+      onUpdateBeat(beat.id, { pipSettings: { ...(beat.pipSettings ?? createPipSettings(layoutMode)), ...updates } });
+  };
+
+  const movePipToCorner = (beat: Beat, corner: PipCorner) => {
+      const pip = beat.pipSettings ?? createPipSettings(layoutMode);
+      updatePipSettings(beat, getPipCornerPosition(corner, pip, layoutMode));
+  };
+
   const toggleImagePanel = (e: React.MouseEvent, beat: Beat) => {
       e.stopPropagation();
       setExpandedSettingsId(null);
@@ -332,6 +495,78 @@ export const Timeline: React.FC<TimelineProps> = ({
                             </div>
                         </div>
                         
+                        {/* Brand Kit */}
+                        <div className="flex flex-col gap-3 mt-1 pt-3 border-t border-border">
+                            <div className="flex items-center justify-between">
+                                <label className="text-[10px] font-bold text-text-muted uppercase flex items-center gap-1.5"><Stamp size={10} /> Brand Kit</label>
+                                <button
+                                    onClick={() => updateBrandKit({ enabled: !brandKit.enabled })}
+                                    className={`px-2 py-0.5 rounded text-[9px] font-bold uppercase border transition-colors ${brandKit.enabled ? 'bg-primary/20 text-primary border-primary/20' : 'text-text-muted border-border hover:text-text-main'}`}
+                                    title="Restyles captions, text overlays and split gutters without their own colour, and stamps the logo on every frame"
+                                >
+                                    {brandKit.enabled ? 'On' : 'Off'}
+                                </button>
+                            </div>
+                            {brandKit.enabled && (
+                                <>
+                                <div className="flex items-center gap-2">
+                                    {brandKit.logo && (
+                                        <div className="relative group shrink-0">
+                                            <img src={brandKit.logo} className="w-8 h-8 rounded-md object-contain bg-text-main/5 ring-1 ring-border" alt="logo" />
+                                            <button onClick={() => updateBrandKit({ logo: undefined })} className="absolute -top-1.5 -right-1.5 bg-red-500 text-white rounded-full p-0.5 opacity-0 group-hover:opacity-100 transition-opacity"><X size={8} /></button>
+                                        </div>
+                                    )}
+                                    <label className="flex-1 cursor-pointer glass-button rounded-lg px-2 text-text-muted flex items-center justify-center gap-2 transition hover:text-text-main h-8 text-[10px] font-medium uppercase tracking-wide">
+                                        <Upload size={10} /> {brandKit.logo ? 'Replace Logo' : 'Upload Logo'}
+                                        <input type="file" accept="image/*" onChange={handleLogoUpload} className="hidden" />
+                                    </label>
+                                    <div className="grid grid-cols-2 gap-0.5 p-0.5 bg-surface rounded border border-border shrink-0" title="Logo corner">
+                                        {PIP_CORNERS.map(corner => (
+                                            <button key={corner.value} onClick={() => updateBrandKit({ logoPosition: corner.value })} className={`w-3 h-2 rounded-sm ${brandKit.logoPosition === corner.value ? 'bg-primary' : 'bg-text-main/10 hover:bg-primary/50'}`} title={corner.label} />
+                                        ))}
+                                    </div>
+                                </div>
+                                {brandKit.logo && (
+                                    <div className="grid grid-cols-2 gap-x-6">
+                                        <div className="space-y-1">
+                                            <div className="flex justify-between text-[10px] text-text-muted"><span>Logo Size</span><span>{brandKit.logoSize}%</span></div>
+                                            <input type="range" min={LOGO_SIZE_LIMITS.min} max={LOGO_SIZE_LIMITS.max} step="1" value={brandKit.logoSize} onChange={(e) => updateBrandKit({ logoSize: parseInt(e.target.value) })} className="w-full accent-primary h-1 bg-text-main/10 rounded-lg appearance-none cursor-pointer" />
+                                        </div>
+                                        <div className="space-y-1">
+                                            <div className="flex justify-between text-[10px] text-text-muted"><span>Logo Opacity</span><span>{Math.round(brandKit.logoOpacity * 100)}%</span></div>
+                                            <input type="range" min="0" max="1" step="0.05" value={brandKit.logoOpacity} onChange={(e) => updateBrandKit({ logoOpacity: parseFloat(e.target.value) })} className="w-full accent-primary h-1 bg-text-main/10 rounded-lg appearance-none cursor-pointer" />
+                                        </div>
+                                    </div>
+                                )}
+                                <div className="flex items-center gap-4">
+                                    <label className="flex items-center gap-1.5 text-[10px] text-text-muted cursor-pointer">
+                                        <input type="color" value={brandKit.primaryColor} onChange={(e) => updateBrandKit({ primaryColor: e.target.value })} className="w-6 h-6 rounded border border-border bg-transparent cursor-pointer" />
+                                        Primary
+                                    </label>
+                                    <label className="flex items-center gap-1.5 text-[10px] text-text-muted cursor-pointer">
+                                        <input type="color" value={brandKit.secondaryColor} onChange={(e) => updateBrandKit({ secondaryColor: e.target.value })} className="w-6 h-6 rounded border border-border bg-transparent cursor-pointer" />
+                                        Secondary
+                                    </label>
+                                </div>
+                                <div className="grid grid-cols-2 gap-3">
+                                    {(['headingFont', 'bodyFont'] as const).map(field => (
+                                        <div key={field} className="flex flex-col gap-1">
+                                            <span className="text-[10px] text-text-muted">{field === 'headingFont' ? 'Headings' : 'Captions'}</span>
+                                            <select
+                                                value={brandKit[field]}
+                                                onChange={(e) => updateBrandKit({ [field]: e.target.value })}
+                                                className="w-full bg-surface border border-border rounded-md px-2 py-1 text-[11px] text-text-main focus:outline-none"
+                                                style={{ fontFamily: brandKit[field] }}
+                                            >
+                                                {BRAND_FONTS.map(font => <option key={font} value={font}>{font}</option>)}
+                                            </select>
+                                        </div>
+                                    ))}
+                                </div>
+                                </>
+                            )}
+                        </div>
+
                         <div className="flex items-center justify-between gap-4 mt-1 pt-3 border-t border-border">
                              <div className="flex items-center gap-2">
                                 <span className="text-[10px] font-bold text-text-muted uppercase">Versions</span>
@@ -371,9 +606,21 @@ export const Timeline: React.FC<TimelineProps> = ({
         {beats.map((beat, index) => {
           const isTimeActive = currentTime >= beat.startTime && currentTime < beat.endTime;
           const showSettings = expandedSettingsId === beat.id;
+          const settings = getBeatSettings(beat, layoutMode);
+          const hasFormatOverride = !!beat.formatOverrides?.[layoutMode];
+          const pip = beat.pipSettings ?? createPipSettings(layoutMode);
+          const split = beat.splitSettings ?? createSplitSettings();
+          const isSideBySide = split.orientation === 'side-by-side';
           const showImagePanel = expandedImagePanelId === beat.id;
           const isSelected = selectedBeatIds.has(beat.id);
-          const hasImage = !!beat.bRollImage;
+          const hasImage = !!beat.bRollImage || !!beat.bRollClip;
+          const clip = beat.bRollClip;
+          const isGeneratingClip = generatingClipIds.has(beat.id);
+          const slideshow = beat.slideshow;
+          const slideSpans = slideshow ? getSlideSpans(beat) : [];
+          const unusedOptions = slideshow ? (beat.bRollOptions ?? []).filter(url => !slideshow.slides.some(s => s.image === url)) : [];
+          const collage = beat.collage;
+          const selectedCell = collageCell?.beatId === beat.id ? collageCell.index : 0;
           
           return (
             <div 
@@ -409,6 +656,8 @@ export const Timeline: React.FC<TimelineProps> = ({
                        <div className="w-10 h-10 rounded bg-surface border border-border overflow-hidden relative">
                            {beat.bRollImage ? (
                                <img src={beat.bRollImage} className="w-full h-full object-cover" alt="thm" />
+                           ) : clip ? (
+                               <div className="w-full h-full flex items-center justify-center"><Film size={12} className="text-text-muted" /></div>
                            ) : (
                                <div className="w-full h-full flex items-center justify-center"><ImageIcon size={12} className="text-text-muted" /></div>
                            )}
@@ -438,15 +687,16 @@ export const Timeline: React.FC<TimelineProps> = ({
                             <button 
                                 onClick={(e) => {
                                      e.stopPropagation();
-                                     onUpdateBeat(beat.id, { overlayType: beat.overlayType === OverlayType.SPLIT ? OverlayType.FULL : OverlayType.SPLIT });
+                                     cycleOverlayType(beat);
                                 }}
-                                className={`p-1.5 rounded hover:bg-text-main/5 ${beat.overlayType === OverlayType.SPLIT ? 'text-blue-400' : 'text-text-muted'}`}
-                                title={beat.overlayType === OverlayType.SPLIT ? "Active: Split Mode" : "Active: Full Mode"}
+                                className={`p-1.5 rounded hover:bg-text-main/5 ${beat.overlayType !== OverlayType.FULL ? 'text-blue-400' : 'text-text-muted'}`}
+                                title={`Active: ${OVERLAY_LABELS[beat.overlayType]} (click for ${OVERLAY_LABELS[NEXT_OVERLAY[beat.overlayType]]})`}
                             >
-                                {beat.overlayType === OverlayType.SPLIT ? <Layout size={12} /> : <Maximize size={12} />}
+                                {beat.overlayType === OverlayType.SPLIT ? <Layout size={12} /> : beat.overlayType === OverlayType.PIP ? <PictureInPicture2 size={12} /> : <Maximize size={12} />}
                             </button>
 
                             <button onClick={(e) => handleOpenSplitModal(e, beat)} className="p-1.5 rounded hover:bg-text-main/5 text-text-muted hover:text-yellow-400" title="Split Text Segment"><Scissors size={12} /></button>
+                            <button onClick={(e) => { e.stopPropagation(); onRenderBeat(beat); }} className="p-1.5 rounded hover:bg-text-main/5 text-text-muted hover:text-primary" title="Render this beat"><Clapperboard size={12} /></button>
                             <button onClick={() => onUpdateBeat(beat.id, { isEnabled: !beat.isEnabled })} className="p-1.5 rounded hover:bg-text-main/5 text-text-muted hover:text-blue-400" title="Toggle Visibility">{beat.isEnabled ? <Eye size={12} /> : <EyeOff size={12} />}</button>
                        </div>
                        )}
@@ -472,12 +722,59 @@ export const Timeline: React.FC<TimelineProps> = ({
                                     >
                                         <Wand2 size={16} /> Generate
                                     </button>
+                                    <button
+                                        onClick={() => onGenerateClip(beat.id, promptInputs[beat.id])}
+                                        className="h-8 glass-button rounded-lg flex items-center justify-center gap-1.5 text-[10px] font-bold text-text-muted hover:text-text-main uppercase disabled:opacity-50"
+                                        disabled={!promptInputs[beat.id] || isGeneratingClip}
+                                        title="Generate a video clip from the description"
+                                    >
+                                        {isGeneratingClip ? <Loader2 size={12} className="animate-spin" /> : <Film size={12} />} Clip
+                                    </button>
                                     <label className="h-8 glass-button rounded-lg flex items-center justify-center gap-1.5 text-[10px] font-bold text-text-muted hover:text-text-main cursor-pointer uppercase">
                                         <Upload size={12} /> Upload
-                                        <input type="file" accept="image/*" className="hidden" onChange={(e) => handleFileUpload(beat.id, e)} />
+                                        <input type="file" accept="image/*,video/*" className="hidden" onChange={(e) => handleFileUpload(beat.id, e)} />
                                     </label>
                                 </div>
                             </div>
+
+                            {/* Video Clip */}
+                            {clip && (
+                                <div className="bg-background/40 p-3 rounded-lg border border-border flex flex-col gap-3">
+                                    <div className="flex items-center justify-between">
+                                        <span className="text-[9px] font-bold text-text-muted uppercase flex items-center gap-1.5">
+                                            <Film size={10} /> Video Clip · {getClipLength(clip).toFixed(1)}s of {clip.duration.toFixed(1)}s
+                                        </span>
+                                        <button onClick={() => onUpdateBeat(beat.id, { bRollClip: undefined })} className="p-1 rounded hover:bg-text-main/5 text-text-muted hover:text-red-400" title="Remove clip (keeps its still)"><X size={10} /></button>
+                                    </div>
+                                    <div className="grid grid-cols-2 gap-x-6">
+                                        <div className="space-y-1">
+                                            <div className="flex justify-between text-[10px] text-text-muted"><span>Trim In</span><span>{clip.trimStart.toFixed(1)}s</span></div>
+                                            <input type="range" min="0" max={clip.duration} step="0.1" value={clip.trimStart} onChange={(e) => trimClip(beat, 'trimStart', parseFloat(e.target.value))} className="w-full accent-primary h-1 bg-text-main/10 rounded-lg appearance-none cursor-pointer" />
+                                        </div>
+                                        <div className="space-y-1">
+                                            <div className="flex justify-between text-[10px] text-text-muted"><span>Trim Out</span><span>{clip.trimEnd.toFixed(1)}s</span></div>
+                                            <input type="range" min="0" max={clip.duration} step="0.1" value={clip.trimEnd} onChange={(e) => trimClip(beat, 'trimEnd', parseFloat(e.target.value))} className="w-full accent-primary h-1 bg-text-main/10 rounded-lg appearance-none cursor-pointer" />
+                                        </div>
+                                    </div>
+                                    <div className="flex items-center gap-3">
+                                        <div className="flex bg-surface rounded-lg p-0.5 border border-border shrink-0" title="When the beat outlasts the clip">
+                                            {CLIP_END_BEHAVIORS.map(behavior => (
+                                                <button
+                                                    key={behavior.value}
+                                                    onClick={() => updateClip(beat, { endBehavior: behavior.value })}
+                                                    className={`px-2 py-0.5 rounded-md text-[10px] font-bold transition-all ${clip.endBehavior === behavior.value ? 'bg-text-main text-background shadow-sm' : 'text-text-muted hover:text-text-main'}`}
+                                                >
+                                                    {behavior.label}
+                                                </button>
+                                            ))}
+                                        </div>
+                                        <button onClick={() => updateClip(beat, { muted: !clip.muted })} className={`p-1 rounded hover:bg-text-main/5 ${clip.muted ? 'text-text-muted' : 'text-primary'}`} title={clip.muted ? 'Unmute clip' : 'Mute clip'}>
+                                            {clip.muted ? <VolumeX size={12} /> : <Volume2 size={12} />}
+                                        </button>
+                                        <input type="range" min="0" max="1" step="0.05" value={clip.volume} disabled={clip.muted} onChange={(e) => updateClip(beat, { volume: parseFloat(e.target.value) })} className="flex-1 accent-primary h-1 bg-text-main/10 rounded-lg appearance-none cursor-pointer disabled:opacity-40" title={`Volume ${Math.round(clip.volume * 100)}%`} />
+                                    </div>
+                                </div>
+                            )}
                             
                             {/* Override Configs */}
                             <div className="bg-background/40 p-3 rounded-lg border border-border flex flex-col gap-3">
@@ -533,6 +830,161 @@ export const Timeline: React.FC<TimelineProps> = ({
                                     ))}
                                 </div>
                             )}
+
+                            {/* Slideshow */}
+                            {(slideshow || (beat.bRollOptions?.length ?? 0) >= 2) && (
+                                <div className="bg-background/40 p-3 rounded-lg border border-border flex flex-col gap-2">
+                                    <div className="flex items-center justify-between">
+                                        <span className="text-[9px] font-bold text-text-muted uppercase flex items-center gap-1.5"><Layers size={10} /> Slideshow</span>
+                                        <button
+                                            onClick={() => toggleSlideshow(beat)}
+                                            className={`px-2 py-0.5 rounded text-[9px] font-bold uppercase border transition-colors ${slideshow ? 'bg-primary/20 text-primary border-primary/20' : 'text-text-muted border-border hover:text-text-main'}`}
+                                            title="Play several of this beat's images one after another"
+                                        >
+                                            {slideshow ? 'On' : 'Off'}
+                                        </button>
+                                    </div>
+                                    {slideshow && (
+                                        <>
+                                        {slideshow.slides.map((slide, idx) => {
+                                            const span = slideSpans[idx];
+                                            const shownFor = span ? span.end - span.start : 0;
+                                            return (
+                                                <div key={`${slide.image}-${idx}`} className="flex flex-col gap-2">
+                                                    <div className="flex items-center gap-2">
+                                                        <img src={slide.image} className={`w-8 h-8 rounded object-cover ring-1 ring-border shrink-0 ${shownFor <= 0 ? 'opacity-40' : ''}`} alt={`slide ${idx + 1}`} />
+                                                        <input
+                                                            type="number"
+                                                            min="0.1"
+                                                            step="0.1"
+                                                            value={slide.duration ?? ''}
+                                                            placeholder={shownFor.toFixed(1)}
+                                                            onChange={(e) => editSlide(beat, idx, { duration: e.target.value === '' ? undefined : Math.max(0.1, parseFloat(e.target.value) || 0.1) })}
+                                                            className="w-14 glass-input rounded px-1.5 py-0.5 text-[10px] font-mono text-text-main"
+                                                            title={slide.duration === undefined ? 'Seconds (shares the rest of the beat while empty)' : 'Seconds'}
+                                                        />
+                                                        <span className="text-[9px] text-text-muted">{shownFor <= 0 ? 'past the beat' : slide.duration === undefined ? 'auto' : 's'}</span>
+                                                        <div className="flex items-center ml-auto">
+                                                            <button onClick={() => toggleSlideFraming(beat, idx)} className={`p-1 rounded hover:bg-text-main/5 ${slide.bRollSettings ? 'text-primary' : 'text-text-muted hover:text-text-main'}`} title={slide.bRollSettings ? 'Use the beat framing' : 'Frame this image separately'}><Crop size={10} /></button>
+                                                            <button onClick={() => updateSlideshow(beat, moveSlide(slideshow, idx, -1))} disabled={idx === 0} className="p-1 rounded hover:bg-text-main/5 text-text-muted hover:text-text-main disabled:opacity-30" title="Earlier"><ChevronUp size={10} /></button>
+                                                            <button onClick={() => updateSlideshow(beat, moveSlide(slideshow, idx, 1))} disabled={idx === slideshow.slides.length - 1} className="p-1 rounded hover:bg-text-main/5 text-text-muted hover:text-text-main disabled:opacity-30" title="Later"><ChevronDown size={10} /></button>
+                                                            <button onClick={() => updateSlideshow(beat, removeSlide(slideshow, idx))} className="p-1 rounded hover:bg-text-main/5 text-text-muted hover:text-red-400" title="Remove slide"><X size={10} /></button>
+                                                        </div>
+                                                    </div>
+                                                    {slide.bRollSettings && (
+                                                        <div className="grid grid-cols-3 gap-x-3 pl-10">
+                                                            {(['x', 'y', 'scale'] as const).map(field => (
+                                                                <div key={field} className="space-y-1">
+                                                                    <div className="flex justify-between text-[9px] text-text-muted"><span>{field === 'scale' ? 'Scale' : field.toUpperCase()}</span><span>{field === 'scale' ? `${slide.bRollSettings![field].toFixed(1)}x` : `${Math.round(slide.bRollSettings![field])}%`}</span></div>
+                                                                    <input
+                                                                        type="range"
+                                                                        min={field === 'scale' ? 0.5 : -50}
+                                                                        max={field === 'scale' ? 3 : 50}
+                                                                        step={field === 'scale' ? 0.1 : 1}
+                                                                        value={slide.bRollSettings![field]}
+                                                                        onChange={(e) => editSlide(beat, idx, { bRollSettings: { ...slide.bRollSettings!, [field]: parseFloat(e.target.value) } })}
+                                                                        className="w-full accent-primary h-1 bg-text-main/10 rounded-lg appearance-none cursor-pointer"
+                                                                    />
+                                                                </div>
+                                                            ))}
+                                                        </div>
+                                                    )}
+                                                </div>
+                                            );
+                                        })}
+                                        {unusedOptions.length > 0 && (
+                                            <div className="flex gap-1.5 pt-2 border-t border-border overflow-x-auto custom-scrollbar">
+                                                {unusedOptions.map(url => (
+                                                    <button key={url} onClick={() => updateSlideshow(beat, { ...slideshow, slides: [...slideshow.slides, { image: url }] })} className="relative w-8 h-8 shrink-0 rounded overflow-hidden ring-1 ring-border opacity-60 hover:opacity-100" title="Add slide">
+                                                        <img src={url} className="w-full h-full object-cover" alt="option" />
+                                                        <span className="absolute inset-0 flex items-center justify-center bg-black/40 text-white"><Plus size={10} /></span>
+                                                    </button>
+                                                ))}
+                                            </div>
+                                        )}
+                                        <div className="flex bg-surface rounded-lg p-0.5 border border-border" title="Between slides">
+                                            {TRANSITION_TYPES.map(t => (
+                                                <button
+                                                    key={t.value}
+                                                    onClick={() => setSlideshowTransitionType(beat, t.value)}
+                                                    className={`flex-1 px-2 py-1 rounded-md text-[10px] font-bold transition-all ${(slideshow.transition?.type ?? 'cut') === t.value ? 'bg-text-main text-background shadow-sm' : 'text-text-muted hover:text-text-main'}`}
+                                                >
+                                                    {t.label}
+                                                </button>
+                                            ))}
+                                        </div>
+                                        </>
+                                    )}
+                                </div>
+                            )}
+
+                            {/* Collage */}
+                            {(collage || (beat.bRollOptions?.length ?? 0) >= 2) && (
+                                <div className="bg-background/40 p-3 rounded-lg border border-border flex flex-col gap-3">
+                                    <div className="flex items-center justify-between">
+                                        <span className="text-[9px] font-bold text-text-muted uppercase flex items-center gap-1.5"><LayoutGrid size={10} /> Collage</span>
+                                        <button
+                                            onClick={() => toggleCollage(beat)}
+                                            className={`px-2 py-0.5 rounded text-[9px] font-bold uppercase border transition-colors ${collage ? 'bg-primary/20 text-primary border-primary/20' : 'text-text-muted border-border hover:text-text-main'}`}
+                                            title="Show several of this beat's images at once in a grid"
+                                        >
+                                            {collage ? 'On' : 'Off'}
+                                        </button>
+                                    </div>
+                                    {collage && (
+                                        <>
+                                        <div className="flex bg-surface rounded-lg p-0.5 border border-border">
+                                            {COLLAGE_LAYOUTS.map(l => (
+                                                <button
+                                                    key={l.value}
+                                                    onClick={() => updateCollage(beat, setCollageLayout(collage, beat, l.value))}
+                                                    className={`flex-1 px-2 py-1 rounded-md text-[10px] font-bold transition-all ${collage.layout === l.value ? 'bg-text-main text-background shadow-sm' : 'text-text-muted hover:text-text-main'}`}
+                                                >
+                                                    {l.label}
+                                                </button>
+                                            ))}
+                                        </div>
+                                        <p className="text-[9px] text-text-muted">Cells sit side by side in a wide frame and stack in a tall one. Position and zoom don't apply to a collage.</p>
+                                        <div className="flex gap-1.5">
+                                            {Array.from({ length: getCollageCellCount(collage.layout) }, (_, idx) => {
+                                                const image = collage.images[idx];
+                                                return (
+                                                    <button
+                                                        key={idx}
+                                                        onClick={() => setCollageCell({ beatId: beat.id, index: Math.min(idx, collage.images.length) })}
+                                                        className={`w-10 h-10 shrink-0 rounded overflow-hidden flex items-center justify-center text-[9px] font-bold text-text-muted ${selectedCell === idx ? 'ring-2 ring-primary' : 'ring-1 ring-border'}`}
+                                                        title={`Cell ${idx + 1}`}
+                                                    >
+                                                        {image ? <img src={image} className="w-full h-full object-cover" alt={`cell ${idx + 1}`} /> : idx + 1}
+                                                    </button>
+                                                );
+                                            })}
+                                        </div>
+                                        <div className="flex gap-1.5 pt-2 border-t border-border overflow-x-auto custom-scrollbar">
+                                            {getCollageChoices(beat).map(url => (
+                                                <button key={url} onClick={() => pickCollageImage(beat, url)} className={`relative w-8 h-8 shrink-0 rounded overflow-hidden ring-1 ring-border ${collage.images.includes(url) ? 'opacity-100' : 'opacity-60 hover:opacity-100'}`} title={`Put in cell ${selectedCell + 1}`}>
+                                                    <img src={url} className="w-full h-full object-cover" alt="option" />
+                                                </button>
+                                            ))}
+                                        </div>
+                                        <div className="grid grid-cols-2 gap-x-3">
+                                            <div className="space-y-1">
+                                                <div className="flex justify-between text-[10px] text-text-muted"><span>Gutter</span><span>{collage.gutter}px</span></div>
+                                                <input type="range" min={COLLAGE_GUTTER_LIMITS.min} max={COLLAGE_GUTTER_LIMITS.max} step="1" value={collage.gutter} onChange={(e) => updateCollage(beat, { gutter: parseInt(e.target.value) })} className="w-full accent-primary h-1 bg-text-main/10 rounded-lg appearance-none cursor-pointer" />
+                                            </div>
+                                            <div className="space-y-1">
+                                                <div className="flex justify-between text-[10px] text-text-muted"><span>Corners</span><span>{collage.radius}%</span></div>
+                                                <input type="range" min={COLLAGE_RADIUS_LIMITS.min} max={COLLAGE_RADIUS_LIMITS.max} step="1" value={collage.radius} onChange={(e) => updateCollage(beat, { radius: parseInt(e.target.value) })} className="w-full accent-primary h-1 bg-text-main/10 rounded-lg appearance-none cursor-pointer" />
+                                            </div>
+                                        </div>
+                                        <label className="flex items-center gap-1.5 text-[10px] text-text-muted cursor-pointer">
+                                            <input type="color" value={collage.backgroundColor} onChange={(e) => updateCollage(beat, { backgroundColor: e.target.value })} className="w-5 h-5 rounded border border-border bg-transparent cursor-pointer" />
+                                            Background
+                                        </label>
+                                        </>
+                                    )}
+                                </div>
+                            )}
                         </div>
                    </div>
                )}
@@ -541,37 +993,203 @@ export const Timeline: React.FC<TimelineProps> = ({
                {showSettings && !isSelectionMode && (
                     <div className="border-t border-b border-border bg-surface/90 backdrop-blur-md p-4 animate-slide-up text-xs" onClick={(e) => e.stopPropagation()}>
                         <div className="grid grid-cols-2 gap-x-6 gap-y-4">
-                            <div className="col-span-2 mb-1">
+                            <div className="col-span-2 mb-1 flex items-center justify-between">
                                 <span className="text-[10px] font-bold text-text-muted uppercase">Transform & Layout</span>
+                                <button
+                                    onClick={() => toggleFormatOverride(beat)}
+                                    className={`h-6 px-2 rounded flex items-center gap-1 text-[9px] font-bold uppercase border transition-colors ${hasFormatOverride ? 'bg-primary/20 border-primary/50 text-primary' : 'bg-surface border-border text-text-muted hover:text-text-main'}`}
+                                    title={hasFormatOverride ? `Drop the ${layoutMode} framing and use the shared one` : `Frame this beat separately for ${layoutMode}`}
+                                >
+                                    <Crop size={10} /> {hasFormatOverride ? `${layoutMode} only` : 'All formats'}
+                                </button>
                             </div>
+                            {collage && <p className="col-span-2 -mt-3 text-[9px] text-text-muted">Scale and position don't apply while the collage is on; each image fills its cell.</p>}
 
-                            <div className="space-y-1">
-                                <div className="flex justify-between text-[10px] text-text-muted"><span>Scale</span><span>{beat.bRollSettings.scale.toFixed(1)}x</span></div>
-                                <input type="range" min="0.5" max="3" step="0.1" value={beat.bRollSettings.scale} onChange={(e) => onUpdateBeat(beat.id, { bRollSettings: { ...beat.bRollSettings, scale: parseFloat(e.target.value) } })} className="w-full accent-primary h-1 bg-text-main/10 rounded-lg appearance-none cursor-pointer" />
+                            <div className={`space-y-1 ${collage ? 'opacity-40 pointer-events-none' : ''}`}>
+                                <div className="flex justify-between text-[10px] text-text-muted"><span>Scale</span><span>{settings.scale.toFixed(1)}x</span></div>
+                                <input type="range" min="0.5" max="3" step="0.1" value={settings.scale} onChange={(e) => updateBRollSettings(beat, { scale: parseFloat(e.target.value) })} className="w-full accent-primary h-1 bg-text-main/10 rounded-lg appearance-none cursor-pointer" />
                             </div>
                             
-                            <div className="space-y-1">
-                                <div className="flex justify-between text-[10px] text-text-muted"><span>Position X</span><span>{beat.bRollSettings.x}</span></div>
-                                <input type="range" min="-50" max="50" step="1" value={beat.bRollSettings.x} onChange={(e) => onUpdateBeat(beat.id, { bRollSettings: { ...beat.bRollSettings, x: parseInt(e.target.value) } })} className="w-full accent-primary h-1 bg-text-main/10 rounded-lg appearance-none cursor-pointer" />
+                            <div className={`space-y-1 ${collage ? 'opacity-40 pointer-events-none' : ''}`}>
+                                <div className="flex justify-between text-[10px] text-text-muted"><span>Position X</span><span>{settings.x}</span></div>
+                                <input type="range" min="-50" max="50" step="1" value={settings.x} onChange={(e) => updateBRollSettings(beat, { x: parseInt(e.target.value) })} className="w-full accent-primary h-1 bg-text-main/10 rounded-lg appearance-none cursor-pointer" />
                             </div>
 
-                             <div className="space-y-1">
-                                <div className="flex justify-between text-[10px] text-text-muted"><span>Position Y</span><span>{beat.bRollSettings.y}</span></div>
-                                <input type="range" min="-50" max="50" step="1" value={beat.bRollSettings.y} onChange={(e) => onUpdateBeat(beat.id, { bRollSettings: { ...beat.bRollSettings, y: parseInt(e.target.value) } })} className="w-full accent-primary h-1 bg-text-main/10 rounded-lg appearance-none cursor-pointer" />
+                             <div className={`space-y-1 ${collage ? 'opacity-40 pointer-events-none' : ''}`}>
+                                <div className="flex justify-between text-[10px] text-text-muted"><span>Position Y</span><span>{settings.y}</span></div>
+                                <input type="range" min="-50" max="50" step="1" value={settings.y} onChange={(e) => updateBRollSettings(beat, { y: parseInt(e.target.value) })} className="w-full accent-primary h-1 bg-text-main/10 rounded-lg appearance-none cursor-pointer" />
                             </div>
                             
                             {beat.overlayType === OverlayType.SPLIT && (
                                 <>
+                                <div className="col-span-2 flex items-center gap-2">
+                                    <div className="flex bg-surface rounded-lg p-0.5 border border-border">
+                                        {SPLIT_ORIENTATIONS.map(orientation => (
+                                            <button key={orientation.value} onClick={() => updateSplitSettings(beat, { orientation: orientation.value })} className={`px-2 py-0.5 rounded-md text-[9px] font-bold transition-all ${split.orientation === orientation.value ? 'bg-text-main text-background shadow-sm' : 'text-text-muted hover:text-text-main'}`}>{orientation.label}</button>
+                                        ))}
+                                    </div>
+                                    <button
+                                        onClick={() => updateSplitSettings(beat, { order: split.order === 'b-roll-first' ? 'a-roll-first' : 'b-roll-first' })}
+                                        className="h-6 px-2 rounded text-[9px] font-bold uppercase border bg-surface border-border text-text-muted hover:text-text-main"
+                                        title="Swap sides"
+                                    >
+                                        B-roll {split.order === 'b-roll-first' ? (isSideBySide ? 'left' : 'top') : (isSideBySide ? 'right' : 'bottom')}
+                                    </button>
+                                    {brandKit.enabled && split.gutterColor && (
+                                        <button onClick={() => updateSplitSettings(beat, { gutterColor: undefined })} className="h-6 px-2 ml-auto rounded text-[9px] font-bold uppercase border bg-surface border-border text-text-muted hover:text-text-main" title="Use the brand kit's primary colour">
+                                            Brand
+                                        </button>
+                                    )}
+                                    <input type="color" value={getGutterColor(split, brandKit)} onChange={(e) => updateSplitSettings(beat, { gutterColor: e.target.value })} className={`w-6 h-6 rounded border border-border bg-transparent cursor-pointer ${brandKit.enabled && split.gutterColor ? '' : 'ml-auto'}`} title={brandKit.enabled && !split.gutterColor ? 'Gutter colour (the brand colour until you pick one)' : 'Gutter colour'} />
+                                </div>
                                 <div className="space-y-1">
-                                    <div className="flex justify-between text-[10px] text-text-muted"><span>Split Height</span><span>{beat.bRollSettings.height}%</span></div>
-                                    <input type="range" min="20" max="80" step="5" value={beat.bRollSettings.height || 50} onChange={(e) => onUpdateBeat(beat.id, { bRollSettings: { ...beat.bRollSettings, height: parseInt(e.target.value) } })} className="w-full accent-secondary h-1 bg-text-main/10 rounded-lg appearance-none cursor-pointer" />
+                                    <div className="flex justify-between text-[10px] text-text-muted"><span>Split {isSideBySide ? 'Width' : 'Height'}</span><span>{settings.height}%</span></div>
+                                    <input type="range" min="20" max="80" step="5" value={settings.height || 50} onChange={(e) => updateBRollSettings(beat, { height: parseInt(e.target.value) })} className="w-full accent-secondary h-1 bg-text-main/10 rounded-lg appearance-none cursor-pointer" />
                                 </div>
                                 <div className="space-y-1">
-                                    <div className="flex justify-between text-[10px] text-text-muted"><span>A-Roll Pan/Crop</span><span>{beat.bRollSettings.aRollOffsetY ?? 50}%</span></div>
-                                    <input type="range" min="0" max="100" step="1" value={beat.bRollSettings.aRollOffsetY ?? 50} onChange={(e) => onUpdateBeat(beat.id, { bRollSettings: { ...beat.bRollSettings, aRollOffsetY: parseInt(e.target.value) } })} className="w-full accent-secondary h-1 bg-text-main/10 rounded-lg appearance-none cursor-pointer" />
+                                    <div className="flex justify-between text-[10px] text-text-muted"><span>A-Roll Pan/Crop</span><span>{settings.aRollOffsetY ?? 50}%</span></div>
+                                    <input type="range" min="0" max="100" step="1" value={settings.aRollOffsetY ?? 50} onChange={(e) => updateBRollSettings(beat, { aRollOffsetY: parseInt(e.target.value) })} className="w-full accent-secondary h-1 bg-text-main/10 rounded-lg appearance-none cursor-pointer" />
+                                </div>
+                                <div className="space-y-1">
+                                    <div className="flex justify-between text-[10px] text-text-muted"><span>Gutter</span><span>{split.gutterWidth}px</span></div>
+                                    <input type="range" min={GUTTER_WIDTH_LIMITS.min} max={GUTTER_WIDTH_LIMITS.max} step="1" value={split.gutterWidth} onChange={(e) => updateSplitSettings(beat, { gutterWidth: parseInt(e.target.value) })} className="w-full accent-secondary h-1 bg-text-main/10 rounded-lg appearance-none cursor-pointer" />
                                 </div>
                                 </>
                             )}
+
+                            {beat.overlayType === OverlayType.PIP && (
+                                <div className="col-span-2 pt-3 border-t border-border space-y-3">
+                                    <div className="flex items-center justify-between">
+                                        <span className="text-[10px] font-bold text-text-muted uppercase">Picture in Picture</span>
+                                        <div className="grid grid-cols-2 gap-0.5 p-0.5 bg-surface rounded border border-border" title="Snap to corner">
+                                            {PIP_CORNERS.map(corner => (
+                                                <button key={corner.value} onClick={() => movePipToCorner(beat, corner.value)} className="w-3 h-2 rounded-sm bg-text-main/10 hover:bg-primary" title={corner.label} />
+                                            ))}
+                                        </div>
+                                    </div>
+                                    <div className="grid grid-cols-2 gap-x-6 gap-y-3">
+                                        <div className="space-y-1">
+                                            <div className="flex justify-between text-[10px] text-text-muted"><span>Inset X</span><span>{Math.round(pip.x)}%</span></div>
+                                            <input type="range" min="0" max="100" step="1" value={pip.x} onChange={(e) => updatePipSettings(beat, { x: parseInt(e.target.value) })} className="w-full accent-primary h-1 bg-text-main/10 rounded-lg appearance-none cursor-pointer" />
+                                        </div>
+                                        <div className="space-y-1">
+                                            <div className="flex justify-between text-[10px] text-text-muted"><span>Inset Y</span><span>{Math.round(pip.y)}%</span></div>
+                                            <input type="range" min="0" max="100" step="1" value={pip.y} onChange={(e) => updatePipSettings(beat, { y: parseInt(e.target.value) })} className="w-full accent-primary h-1 bg-text-main/10 rounded-lg appearance-none cursor-pointer" />
+                                        </div>
+                                        <div className="space-y-1">
+                                            <div className="flex justify-between text-[10px] text-text-muted"><span>Size</span><span>{Math.round(pip.size)}%</span></div>
+                                            <input type="range" min={PIP_SIZE_LIMITS.min} max={PIP_SIZE_LIMITS.max} step="1" value={pip.size} onChange={(e) => updatePipSettings(beat, { size: parseInt(e.target.value) })} className="w-full accent-primary h-1 bg-text-main/10 rounded-lg appearance-none cursor-pointer" />
+                                        </div>
+                                        <div className="space-y-1">
+                                            <div className="flex justify-between text-[10px] text-text-muted"><span>A-Roll Pan/Crop</span><span>{settings.aRollOffsetY ?? 50}%</span></div>
+                                            <input type="range" min="0" max="100" step="1" value={settings.aRollOffsetY ?? 50} onChange={(e) => updateBRollSettings(beat, { aRollOffsetY: parseInt(e.target.value) })} className="w-full accent-secondary h-1 bg-text-main/10 rounded-lg appearance-none cursor-pointer" />
+                                        </div>
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        <div className="flex bg-surface rounded-lg p-0.5 border border-border">
+                                            {PIP_SHAPES.map(shape => (
+                                                <button key={shape.value} onClick={() => updatePipSettings(beat, { shape: shape.value })} className={`px-2 py-0.5 rounded-md text-[9px] font-bold transition-all ${pip.shape === shape.value ? 'bg-text-main text-background shadow-sm' : 'text-text-muted hover:text-text-main'}`}>{shape.label}</button>
+                                            ))}
+                                        </div>
+                                        <button onClick={() => updatePipSettings(beat, { shadow: !pip.shadow })} className={`h-6 px-2 rounded text-[9px] font-bold uppercase border transition-colors ${pip.shadow ? 'bg-primary/20 border-primary/50 text-primary' : 'bg-surface border-border text-text-muted hover:text-text-main'}`}>Shadow</button>
+                                        <input type="color" value={pip.borderColor} onChange={(e) => updatePipSettings(beat, { borderColor: e.target.value })} className="w-6 h-6 rounded border border-border bg-transparent cursor-pointer" title="Border colour" />
+                                    </div>
+                                    <div className="grid grid-cols-2 gap-x-6 gap-y-3">
+                                        {pip.shape === 'rounded' && (
+                                            <div className="space-y-1">
+                                                <div className="flex justify-between text-[10px] text-text-muted"><span>Corner Radius</span><span>{Math.round(pip.radius)}%</span></div>
+                                                <input type="range" min="0" max="50" step="1" value={pip.radius} onChange={(e) => updatePipSettings(beat, { radius: parseInt(e.target.value) })} className="w-full accent-primary h-1 bg-text-main/10 rounded-lg appearance-none cursor-pointer" />
+                                            </div>
+                                        )}
+                                        <div className="space-y-1">
+                                            <div className="flex justify-between text-[10px] text-text-muted"><span>Border</span><span>{pip.borderWidth.toFixed(1)}%</span></div>
+                                            <input type="range" min="0" max="5" step="0.5" value={pip.borderWidth} onChange={(e) => updatePipSettings(beat, { borderWidth: parseFloat(e.target.value) })} className="w-full accent-primary h-1 bg-text-main/10 rounded-lg appearance-none cursor-pointer" />
+                                        </div>
+                                    </div>
+                                </div>
+                            )}
+
+                            <div className="col-span-2 pt-3 border-t border-border space-y-2">
+                                <div className="flex items-center justify-between">
+                                    <span className="text-[10px] font-bold text-text-muted uppercase">Motion</span>
+                                    <div className="flex items-center gap-1">
+                                        <button onClick={() => onUpdateBeat(beat.id, { keyframes: createKenBurnsKeyframes(beat) })} className="h-6 px-2 rounded flex items-center gap-1 text-[9px] font-bold uppercase border bg-surface border-border text-text-muted hover:text-text-main" title="Slow zoom and pan across the beat"><Film size={10} /> Ken Burns</button>
+                                        <button onClick={() => onUpdateBeat(beat.id, { keyframes: addKeyframe(beat, currentTime - beat.startTime) })} className="h-6 px-2 rounded flex items-center gap-1 text-[9px] font-bold uppercase border bg-surface border-border text-text-muted hover:text-text-main" title="Add a keyframe at the playhead"><Plus size={10} /> Key</button>
+                                        {beat.keyframes && beat.keyframes.length > 0 && (
+                                            <button onClick={() => onUpdateBeat(beat.id, { keyframes: undefined })} className="p-1.5 rounded hover:bg-text-main/5 text-text-muted hover:text-red-400" title="Clear keyframes"><Trash2 size={10} /></button>
+                                        )}
+                                    </div>
+                                </div>
+                                {beat.keyframes && beat.keyframes.length > 0 ? (
+                                    <div className="space-y-1">
+                                        <div className="grid grid-cols-[repeat(5,minmax(0,1fr))_4rem_1rem] gap-1 text-[9px] text-text-muted uppercase">
+                                            <span>Time</span><span>X</span><span>Y</span><span>Scale</span><span>Rot°</span><span>Easing</span><span></span>
+                                        </div>
+                                        {beat.keyframes.map((keyframe, index) => (
+                                            <div key={index} className="grid grid-cols-[repeat(5,minmax(0,1fr))_4rem_1rem] gap-1 items-center">
+                                                {(['time', 'x', 'y', 'scale', 'rotation'] as const).map(field => (
+                                                    <input
+                                                        key={field}
+                                                        type="number"
+                                                        step={field === 'time' || field === 'scale' ? 0.1 : 1}
+                                                        value={keyframe[field]}
+                                                        onChange={(e) => updateKeyframe(beat, index, { [field]: clampKeyframeValue(field, parseFloat(e.target.value) || 0) })}
+                                                        className="w-full glass-input rounded px-1 py-0.5 text-[10px] text-text-main font-mono"
+                                                    />
+                                                ))}
+                                                <select
+                                                    value={keyframe.easing}
+                                                    onChange={(e) => updateKeyframe(beat, index, { easing: e.target.value as BRollKeyframe['easing'] })}
+                                                    className="w-full glass-input rounded px-1 py-0.5 text-[10px] text-text-main"
+                                                >
+                                                    {EASING_TYPES.map(e => <option key={e.value} value={e.value}>{e.label}</option>)}
+                                                </select>
+                                                <button onClick={() => removeKeyframe(beat, index)} className="text-text-muted hover:text-red-400"><X size={10} /></button>
+                                            </div>
+                                        ))}
+                                        <p className="text-[9px] text-text-muted">Times are seconds from the beat start. Keyframes replace the static scale and position above; a format's own framing moves them along with it.</p>
+                                    </div>
+                                ) : (
+                                    <p className="text-[9px] text-text-muted">Static. Add keyframes at the playhead or apply a Ken Burns move.</p>
+                                )}
+                            </div>
+
+                            <div className="col-span-2 pt-3 border-t border-border space-y-3">
+                                <span className="text-[10px] font-bold text-text-muted uppercase">Transition In</span>
+                                <div className="flex bg-surface rounded-lg p-0.5 border border-border">
+                                    {TRANSITION_TYPES.map(t => (
+                                        <button
+                                            key={t.value}
+                                            onClick={() => setBeatTransitionType(beat, t.value)}
+                                            className={`flex-1 px-2 py-1 rounded-md text-[10px] font-bold transition-all ${(beat.transition?.type ?? 'cut') === t.value ? 'bg-text-main text-background shadow-sm' : 'text-text-muted hover:text-text-main'}`}
+                                        >
+                                            {t.label}
+                                        </button>
+                                    ))}
+                                </div>
+                                {beat.transition && beat.transition.type !== 'cut' && (
+                                    <div className="grid grid-cols-2 gap-x-6">
+                                        <div className="space-y-1">
+                                            <div className="flex justify-between text-[10px] text-text-muted"><span>Duration</span><span>{beat.transition.duration.toFixed(1)}s</span></div>
+                                            <input type="range" min={TRANSITION_DURATION_LIMITS.min} max={TRANSITION_DURATION_LIMITS.max} step="0.1" value={beat.transition.duration} onChange={(e) => updateBeatTransition(beat, { duration: parseFloat(e.target.value) })} className="w-full accent-primary h-1 bg-text-main/10 rounded-lg appearance-none cursor-pointer" />
+                                        </div>
+                                        <div className="space-y-1">
+                                            <span className="text-[10px] text-text-muted block">Easing</span>
+                                            <div className="flex gap-1">
+                                                {EASING_TYPES.map(e => (
+                                                    <button
+                                                        key={e.value}
+                                                        onClick={() => updateBeatTransition(beat, { easing: e.value })}
+                                                        className={`flex-1 py-0.5 rounded text-[9px] font-bold border transition-colors ${beat.transition?.easing === e.value ? 'border-primary text-text-main bg-primary/10' : 'border-border text-text-muted hover:text-text-main'}`}
+                                                    >
+                                                        {e.label}
+                                                    </button>
+                                                ))}
+                                            </div>
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
                         </div>
                     </div>
                )}
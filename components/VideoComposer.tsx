@@ -1,15 +1,25 @@
-import React, { useState, useEffect, forwardRef, useRef } from 'react';
-import { Beat, LayoutMode, OverlayType, VideoComment } from '../types';
-import { Play, Pause, MessageCircle, Send, X, Check, MoreVertical, Reply, Trash2, CheckCircle2 } from 'lucide-react';
+import React, { useState, useMemo, forwardRef, useRef } from 'react';
+import { Beat, BrandKit, CaptionSettings, LayoutMode, TextOverlay, TimeRange, VideoComment } from '../types';
+import { Play, Pause, MessageCircle, Send, X, Check, MoreVertical, Reply, Trash2, CheckCircle2, ListVideo } from 'lucide-react';
+import { PreviewCanvas } from './PreviewCanvas';
+import { LAYOUT_ASPECTS } from '../utils/layoutModes';
 
 interface VideoComposerProps {
   aRollUrl: string;
   beats: Beat[];
   layoutMode: LayoutMode;
+  captionSettings: CaptionSettings;
+  textOverlays: TextOverlay[];
+  brandKit: BrandKit;
   currentTime: number;
   duration: number;
   isPlaying: boolean;
   videoComments: VideoComment[];
+  selection: TimeRange | null; // From the in/out points; a missing point falls back to the start or end
+  onSetInPoint: (time: number) => void;
+  onSetOutPoint: (time: number) => void;
+  onClearSelection: () => void;
+  onExportSelection: () => void;
   onTogglePlay: () => void;
   onTimeUpdate: (time: number) => void;
   onDurationChange: (duration: number) => void;
@@ -27,10 +37,18 @@ export const VideoComposer = forwardRef<HTMLVideoElement, VideoComposerProps>(({
   aRollUrl,
   beats,
   layoutMode,
+  captionSettings,
+  textOverlays,
+  brandKit,
   currentTime,
   duration,
   isPlaying,
   videoComments,
+  selection,
+  onSetInPoint,
+  onSetOutPoint,
+  onClearSelection,
+  onExportSelection,
   onTogglePlay,
   onTimeUpdate,
   onDurationChange,
@@ -43,18 +61,22 @@ export const VideoComposer = forwardRef<HTMLVideoElement, VideoComposerProps>(({
   onReplyComment,
   onResolveComment
 }, ref) => {
-  const [currentBeat, setCurrentBeat] = useState<Beat | null>(null);
   const [isHovering, setIsHovering] = useState(false);
   const [showCommentPanel, setShowCommentPanel] = useState(false);
   const [newCommentText, setNewCommentText] = useState("");
   const [replyText, setReplyText] = useState("");
   const [replyingToId, setReplyingToId] = useState<string | null>(null);
   const commentListRef = useRef<HTMLDivElement>(null);
+  const videoElRef = useRef<HTMLVideoElement | null>(null);
 
-  useEffect(() => {
-    const activeBeat = beats.find(b => currentTime >= b.startTime && currentTime < b.endTime && b.isEnabled);
-    setCurrentBeat(activeBeat || null);
-  }, [currentTime, beats]);
+  // Keep a local handle on the video (the preview canvas draws from it) while still forwarding the ref to the parent
+  const setVideoRef = (el: HTMLVideoElement | null) => {
+      videoElRef.current = el;
+      if (typeof ref === 'function') ref(el);
+      else if (ref) ref.current = el;
+  };
+
+  const scene = useMemo(() => ({ beats, layoutMode, captionSettings, textOverlays, brandKit }), [beats, layoutMode, captionSettings, textOverlays, brandKit]);
 
   // Scroll to comment when timestamp is hit (optional UX, maybe too jumpy)
   // Instead, let's just highlight markers
@@ -93,11 +115,6 @@ export const VideoComposer = forwardRef<HTMLVideoElement, VideoComposerProps>(({
       setReplyingToId(null);
   };
 
-  // Determine if we are in Split Mode
-  const isSplitMode = currentBeat && currentBeat.isEnabled && currentBeat.overlayType === OverlayType.SPLIT;
-  const splitHeight = currentBeat?.bRollSettings?.height || 50;
-  const aRollOffsetY = currentBeat?.bRollSettings?.aRollOffsetY ?? 50;
-
   // Format time (mm:ss)
   const formatTime = (t: number) => {
       const m = Math.floor(t / 60);
@@ -105,9 +122,9 @@ export const VideoComposer = forwardRef<HTMLVideoElement, VideoComposerProps>(({
       return `${m}:${s.toString().padStart(2, '0')}`;
   };
 
-  const spacerSvg = layoutMode === LayoutMode.PORTRAIT 
-    ? "data:image/svg+xml;charset=utf-8,%3Csvg xmlns='http://www.w3.org/2000/svg' width='900' height='1600' viewBox='0 0 900 1600'%3E%3C/svg%3E"
-    : "data:image/svg+xml;charset=utf-8,%3Csvg xmlns='http://www.w3.org/2000/svg' width='1600' height='900' viewBox='0 0 1600 900'%3E%3C/svg%3E";
+  // Sizes the frame to the layout's aspect ratio inside whatever space the editor gives it
+  const aspect = LAYOUT_ASPECTS[layoutMode];
+  const spacerSvg = `data:image/svg+xml;charset=utf-8,%3Csvg xmlns='http://www.w3.org/2000/svg' width='${aspect.width * 100}' height='${aspect.height * 100}' viewBox='0 0 ${aspect.width * 100} ${aspect.height * 100}'%3E%3C/svg%3E`;
 
   // Sort comments by timestamp
   const sortedComments = [...videoComments].sort((a, b) => a.videoTimestamp - b.videoTimestamp);
@@ -128,75 +145,41 @@ export const VideoComposer = forwardRef<HTMLVideoElement, VideoComposerProps>(({
             />
 
             {/* Absolute Content Layer (Video) */}
-            <div className="absolute inset-0 z-10 flex flex-col w-full h-full bg-black">
-                
-                {/* --- B-Roll Layer (Split Mode) --- */}
-                {isSplitMode && (
-                    <div 
-                        className="w-full relative overflow-hidden bg-gray-900 border-b border-white/5 transition-all duration-300 ease-out"
-                        style={{ height: `${splitHeight}%` }}
-                    >
-                        {currentBeat?.bRollImage ? (
-                            <img 
-                                src={currentBeat.bRollImage} 
-                                alt="B-Roll" 
-                                className="w-full h-full object-cover"
-                                style={{
-                                    transform: `translate(${currentBeat.bRollSettings.x}%, ${currentBeat.bRollSettings.y}%) scale(${currentBeat.bRollSettings.scale})`,
-                                    transformOrigin: 'center center'
-                                }}
-                            />
-                        ) : (
-                            <div className="w-full h-full flex items-center justify-center bg-white/5">
-                                <span className="text-gray-500 text-[9px] uppercase font-bold tracking-widest bg-black/40 px-2 py-1 rounded backdrop-blur">No Visual</span>
-                            </div>
-                        )}
-                    </div>
-                )}
+            <div className="absolute inset-0 z-10 w-full h-full bg-black">
+                {/* A-roll source: plays the audio and feeds frames to the canvas, but isn't shown itself */}
+                <video
+                  ref={setVideoRef}
+                  src={aRollUrl}
+                  playsInline
+                  className="absolute inset-0 w-full h-full opacity-0 pointer-events-none"
+                  onTimeUpdate={handleTimeUpdate}
+                  onLoadedMetadata={handleLoadedMetadata}
+                  onEnded={onEnded}
+                  loop={false}
+                />
 
-                {/* --- A-Roll Layer --- */}
-                <div 
-                  className="w-full relative transition-all duration-300 ease-out bg-black overflow-hidden"
-                  style={{
-                     height: isSplitMode ? `${100 - splitHeight}%` : '100%'
-                  }}
-                >
-                  <video
-                    ref={ref}
-                    src={aRollUrl}
-                    playsInline
-                    className={`w-full h-full ${isSplitMode ? 'object-cover' : 'object-contain'}`}
-                    style={{
-                        objectPosition: isSplitMode ? `50% ${aRollOffsetY}%` : 'center'
-                    }}
-                    onTimeUpdate={handleTimeUpdate}
-                    onLoadedMetadata={handleLoadedMetadata}
-                    onEnded={onEnded}
-                    loop={false}
+                {/* Composited frame (B-roll, transitions, captions) - same drawing as the export */}
+                <PreviewCanvas
+                    videoRef={videoElRef}
+                    scene={scene}
+                    currentTime={currentTime}
+                    isPlaying={isPlaying}
                     onClick={onTogglePlay}
-                  />
-                </div>
-            
-                {/* Full Overlay */}
-                {currentBeat && currentBeat.isEnabled && !isSplitMode && currentBeat.bRollImage && (
-                    <div className="absolute inset-0 z-20 overflow-hidden pointer-events-none">
-                        <img 
-                            src={currentBeat.bRollImage} 
-                            alt="Overlay" 
-                            className="w-full h-full object-cover"
-                            style={{
-                                transform: `translate(${currentBeat.bRollSettings.x}%, ${currentBeat.bRollSettings.y}%) scale(${currentBeat.bRollSettings.scale})`,
-                                transformOrigin: 'center center'
-                            }}
-                        />
-                    </div>
-                )}
+                />
 
                  {/* Controls Overlay */}
                 <div className={`absolute bottom-0 left-0 right-0 z-30 p-4 bg-gradient-to-t from-black/90 via-black/50 to-transparent transition-opacity duration-300 ${isHovering || !isPlaying || showCommentPanel ? 'opacity-100' : 'opacity-0'}`}>
                     <div className="flex flex-col gap-2 relative">
                         {/* Timeline Container */}
                         <div className="relative h-4 flex items-center group/timeline cursor-pointer">
+                            {/* Selected range (in/out points) */}
+                            {selection && duration > 0 && (
+                                <div
+                                    className="absolute h-2 top-1 z-0 bg-primary/40 border-x-2 border-primary rounded-sm pointer-events-none"
+                                    style={{ left: `${(selection.start / duration) * 100}%`, width: `${(Math.max(0, selection.end - selection.start) / duration) * 100}%` }}
+                                />
+                            )}
+
                             {/* Marker Layer (Under thumb, over track) */}
                             <div className="absolute inset-x-0 h-1 top-1.5 z-20 pointer-events-none">
                                 {videoComments.map(comment => (
@@ -235,6 +218,26 @@ export const VideoComposer = forwardRef<HTMLVideoElement, VideoComposerProps>(({
                                 <span className="text-[10px] font-mono text-gray-300">
                                     {formatTime(currentTime)} / {formatTime(duration)}
                                 </span>
+                                <div className="flex items-center gap-1">
+                                    <button onClick={() => onSetInPoint(currentTime)} className="px-1.5 py-0.5 rounded text-[9px] font-bold uppercase text-gray-300 bg-white/10 hover:bg-white/20 hover:text-white transition" title="Set in point at playhead">In</button>
+                                    <button onClick={() => onSetOutPoint(currentTime)} className="px-1.5 py-0.5 rounded text-[9px] font-bold uppercase text-gray-300 bg-white/10 hover:bg-white/20 hover:text-white transition" title="Set out point at playhead">Out</button>
+                                </div>
+                                {selection && (
+                                    <div className="flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full bg-primary/20 border border-primary/30 text-[10px] font-mono text-white">
+                                        <button onClick={() => onSeek(selection.start)} className="hover:text-primary transition" title="Jump to in point">
+                                            {formatTime(selection.start)}–{formatTime(selection.end)}
+                                        </button>
+                                        <button
+                                            onClick={onExportSelection}
+                                            disabled={selection.end <= selection.start}
+                                            className="p-0.5 rounded-full hover:bg-white/10 text-gray-300 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed transition"
+                                            title="Export selection"
+                                        >
+                                            <ListVideo size={10} />
+                                        </button>
+                                        <button onClick={onClearSelection} className="p-0.5 rounded-full hover:bg-white/10 text-gray-300 hover:text-white transition" title="Clear in/out points"><X size={10} /></button>
+                                    </div>
+                                )}
                             </div>
                             
                             <button 
@@ -0,0 +1,149 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { ExportFormat } from '../types';
+import { CompositorScene } from '../utils/compositor';
+import { renderVideoToBlob, isRenderCancelled, EXPORT_FORMATS, RenderOptions, RenderProgress } from '../utils/renderUtils';
+
+// Background export queue. Jobs render one at a time in the order they were added, each from the scene
+// captured when it was queued, so editing carries on meanwhile. Finished files stay available as blob URLs
+// for the rest of the session (or until removed) so they can be downloaded again.
+
+export type RenderJobStatus = 'queued' | 'rendering' | 'done' | 'failed' | 'cancelled';
+
+export interface RenderJobRequest {
+  label: string; // e.g. "Shorts 1080p30 · MP4"
+  sourceUrl: string;
+  scene: CompositorScene;
+  options: RenderOptions;
+}
+
+export interface RenderJobOutput {
+  url: string; // blob URL, revoked when the job is removed
+  fileName: string;
+  size: number; // bytes
+  format: ExportFormat;
+  hasAudio: boolean;
+}
+
+export interface RenderJob extends RenderJobRequest {
+  id: string;
+  status: RenderJobStatus;
+  progress: RenderProgress | null;
+  createdAt: number;
+  output?: RenderJobOutput;
+  error?: string;
+}
+
+interface RenderQueueOptions {
+  onJobFinished?: (job: RenderJob) => void; // done, failed or cancelled
+}
+
+const isFinished = (job: RenderJob) => job.status === 'done' || job.status === 'failed' || job.status === 'cancelled';
+
+const toFileName = (label: string, format: ExportFormat) => {
+  const slug = label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'export';
+  return `remix-${slug}-${Date.now()}.${EXPORT_FORMATS[format].extension}`;
+};
+
+export function useRenderQueue({ onJobFinished }: RenderQueueOptions = {}) {
+  const [jobs, setJobs] = useState<RenderJob[]>([]);
+  const runningRef = useRef<{ id: string; controller: AbortController } | null>(null);
+  const jobsRef = useRef(jobs);
+  jobsRef.current = jobs;
+  const onFinishedRef = useRef(onJobFinished);
+  onFinishedRef.current = onJobFinished;
+
+  const updateJob = (id: string, updates: Partial<RenderJob>) => {
+      setJobs(prev => prev.map(job => job.id === id ? { ...job, ...updates } : job));
+  };
+
+  const finishJob = (job: RenderJob, updates: Partial<RenderJob>) => {
+      updateJob(job.id, { ...updates, progress: null });
+      onFinishedRef.current?.({ ...job, ...updates, progress: null });
+  };
+
+  const runJob = async (job: RenderJob) => {
+      const controller = new AbortController();
+      runningRef.current = { id: job.id, controller };
+      updateJob(job.id, { status: 'rendering' });
+
+      let updates: Partial<RenderJob>;
+      try {
+          const result = await renderVideoToBlob(job.sourceUrl, job.scene, (progress) => updateJob(job.id, { progress }), job.options, controller.signal);
+          updates = {
+              status: 'done',
+              output: {
+                  url: URL.createObjectURL(result.blob),
+                  fileName: toFileName(job.label, result.format),
+                  size: result.blob.size,
+                  format: result.format,
+                  hasAudio: result.hasAudio
+              }
+          };
+      } catch (e: any) {
+          if (isRenderCancelled(e)) {
+              updates = { status: 'cancelled' };
+          } else {
+              console.error("Export failed:", e);
+              updates = { status: 'failed', error: e.message };
+          }
+      }
+      // Cleared before the state update so the effect below can start the next job
+      runningRef.current = null;
+      finishJob(job, updates);
+  };
+
+  useEffect(() => {
+      if (runningRef.current) return;
+      const next = jobs.find(job => job.status === 'queued');
+      if (next) runJob(next);
+  }, [jobs]);
+
+  // Abort the running export and release every kept file when the editor goes away
+  useEffect(() => () => {
+      runningRef.current?.controller.abort();
+      jobsRef.current.forEach(job => job.output && URL.revokeObjectURL(job.output.url));
+  }, []);
+
+  const enqueue = useCallback((request: RenderJobRequest) => {
+      const job: RenderJob = {
+          ...request,
+          id: `render-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+          status: 'queued',
+          progress: null,
+          createdAt: Date.now()
+      };
+      setJobs(prev => [...prev, job]);
+      return job.id;
+  }, []);
+
+  const cancel = useCallback((id: string) => {
+      if (runningRef.current?.id === id) {
+          runningRef.current.controller.abort();
+          return;
+      }
+      const job = jobsRef.current.find(j => j.id === id);
+      if (job?.status === 'queued') finishJob(job, { status: 'cancelled' });
+  }, []);
+
+  const remove = useCallback((id: string) => {
+      if (runningRef.current?.id === id) runningRef.current.controller.abort();
+      const job = jobsRef.current.find(j => j.id === id);
+      if (job?.output) URL.revokeObjectURL(job.output.url);
+      setJobs(prev => prev.filter(j => j.id !== id));
+  }, []);
+
+  const clearFinished = useCallback(() => {
+      jobsRef.current.filter(isFinished).forEach(job => job.output && URL.revokeObjectURL(job.output.url));
+      setJobs(prev => prev.filter(job => !isFinished(job)));
+  }, []);
+
+  return {
+      jobs,
+      activeJob: jobs.find(job => job.status === 'rendering') ?? null,
+      pendingCount: jobs.filter(job => job.status === 'queued' || job.status === 'rendering').length,
+      enqueue,
+      cancel,
+      remove,
+      clearFinished
+  };
+}
@@ -0,0 +1,146 @@
+import { useState, useRef, useCallback, SetStateAction } from 'react';
+
+// State container with a linear undo/redo history.
+// Every recorded update becomes a labeled entry; the current state is always entries[index].state.
+// - Consecutive updates with the same label inside `coalesceMs` collapse into one entry (slider drags, typing).
+// - startGroup returns a group; updates passed that group fold into a single entry, even across awaits
+//   (e.g. a bulk image generation is one undo step). Other updates made meanwhile keep their own entries.
+// - setTransient changes the current state without creating an entry (loading flags, chat).
+
+export interface HistoryEntry<T> {
+  id: number;
+  label: string;
+  timestamp: number;
+  state: T;
+  groupId?: number;
+}
+
+// Token for one long-running operation's updates, from startGroup
+export interface UndoGroup {
+  id: number;
+  label: string;
+}
+
+interface HistoryState<T> {
+  entries: HistoryEntry<T>[];
+  index: number;
+}
+
+interface UndoableStateOptions<T> {
+  limit?: number;
+  coalesceMs?: number;
+  // Carries fields that should survive undo/redo (e.g. transient flags) from the current state into the restored one
+  preserve?: (restored: T, current: T) => T;
+}
+
+const DEFAULT_LABEL = 'Edit';
+const INITIAL_LABEL = 'Opened project';
+
+export function useUndoableState<T>(initial: T | (() => T), options: UndoableStateOptions<T> = {}) {
+  const { limit = 100, coalesceMs = 800, preserve } = options;
+
+  const idRef = useRef(0);
+  const openGroupsRef = useRef(new Set<number>());
+  const [history, setHistory] = useState<HistoryState<T>>(() => ({
+    entries: [{
+      id: 0,
+      label: INITIAL_LABEL,
+      timestamp: Date.now(),
+      state: typeof initial === 'function' ? (initial as () => T)() : initial
+    }],
+    index: 0
+  }));
+
+  // `labelOrGroup` is the entry's label, or the group the update belongs to. Updates for a group that has
+  // ended are recorded like any other
+  const setState = useCallback((update: SetStateAction<T>, labelOrGroup: string | UndoGroup = DEFAULT_LABEL) => {
+    const group = typeof labelOrGroup !== 'string' && openGroupsRef.current.has(labelOrGroup.id) ? labelOrGroup : null;
+    const label = typeof labelOrGroup === 'string' ? labelOrGroup : labelOrGroup.label;
+    const id = ++idRef.current;
+    const now = Date.now();
+
+    setHistory(h => {
+      const current = h.entries[h.index];
+      const next = typeof update === 'function' ? (update as (prev: T) => T)(current.state) : update;
+      if (Object.is(next, current.state)) return h;
+
+      const isLatest = h.index === h.entries.length - 1;
+      const joinsGroup = !!group && current.groupId === group.id;
+      const coalesces = !group && !current.groupId && h.index > 0 && current.label === label && now - current.timestamp < coalesceMs;
+
+      if (isLatest && (joinsGroup || coalesces)) {
+        const entries = h.entries.slice();
+        entries[h.index] = { ...current, state: next, timestamp: now };
+        return { ...h, entries };
+      }
+
+      const entry: HistoryEntry<T> = {
+        id,
+        label,
+        timestamp: now,
+        state: next,
+        groupId: group?.id
+      };
+      const entries = [...h.entries.slice(0, h.index + 1), entry];
+      const overflow = Math.max(0, entries.length - limit);
+      return { entries: entries.slice(overflow), index: entries.length - 1 - overflow };
+    });
+  }, [limit, coalesceMs]);
+
+  const setTransient = useCallback((update: SetStateAction<T>) => {
+    setHistory(h => {
+      const current = h.entries[h.index];
+      const next = typeof update === 'function' ? (update as (prev: T) => T)(current.state) : update;
+      if (Object.is(next, current.state)) return h;
+      const entries = h.entries.slice();
+      entries[h.index] = { ...current, state: next };
+      return { ...h, entries };
+    });
+  }, []);
+
+  const jumpTo = useCallback((targetIndex: number) => {
+    setHistory(h => {
+      if (targetIndex < 0 || targetIndex >= h.entries.length || targetIndex === h.index) return h;
+      const current = h.entries[h.index].state;
+      const target = h.entries[targetIndex];
+      const entries = h.entries.slice();
+      entries[targetIndex] = { ...target, state: preserve ? preserve(target.state, current) : target.state };
+      return { entries, index: targetIndex };
+    });
+  }, [preserve]);
+
+  const undo = useCallback(() => jumpTo(history.index - 1), [jumpTo, history.index]);
+  const redo = useCallback(() => jumpTo(history.index + 1), [jumpTo, history.index]);
+
+  // Replaces the state and clears the history (e.g. when another project is opened)
+  const reset = useCallback((state: T, label: string = INITIAL_LABEL) => {
+    openGroupsRef.current.clear();
+    setHistory({ entries: [{ id: ++idRef.current, label, timestamp: Date.now(), state }], index: 0 });
+  }, []);
+
+  const startGroup = useCallback((label: string): UndoGroup => {
+    const group = { id: ++idRef.current, label };
+    openGroupsRef.current.add(group.id);
+    return group;
+  }, []);
+
+  const endGroup = useCallback((group: UndoGroup) => {
+    openGroupsRef.current.delete(group.id);
+  }, []);
+
+  return {
+    state: history.entries[history.index].state,
+    setState,
+    setTransient,
+    undo,
+    redo,
+    jumpTo,
+    reset,
+    startGroup,
+    endGroup,
+    entries: history.entries,
+    index: history.index,
+    canUndo: history.index > 0,
+    canRedo: history.index < history.entries.length - 1
+  };
+}
@@ -145,7 +145,7 @@ export const analyzeBeats = async (fullText: string): Promise<Beat[]> => {
       visualPrompt: item.visualPrompt,
       overlayType: item.overlayType as OverlayType,
       isEnabled: true, // Default to enabled
-      bRollSettings: { x: 0, y: 0, scale: 1, height: 50 }, // Default settings
+      bRollSettings: { x: 0, y: 0, scale: 1, height: 50, aRollOffsetY: 50 }, // Default settings
       bRollOptions: [] // Initialize empty gallery
     }));
   });
@@ -211,7 +211,7 @@ export const analyzeAudioContent = async (audioBase64: string): Promise<{ transc
       visualPrompt: item.visualPrompt,
       overlayType: item.overlayType as OverlayType,
       isEnabled: true,
-      bRollSettings: { x: 0, y: 0, scale: 1, height: 50 }, // Default settings
+      bRollSettings: { x: 0, y: 0, scale: 1, height: 50, aRollOffsetY: 50 }, // Default settings
       bRollOptions: []
     }));
 
@@ -407,9 +407,11 @@ export const generateVeoVideo = async (prompt: string, config?: VeoConfig): Prom
   const videoUri = operation.response?.generatedVideos?.[0]?.video?.uri;
   if (!videoUri) throw new Error("Video generation failed");
 
-  // Append API key to fetch the actual bytes
-  const apiKey = process.env.API_KEY;
-  return `${videoUri}&key=${apiKey}`;
+  // The download link needs the API key appended and expires, so the bytes are fetched here and callers
+  // get a blob URL that is safe to save and bundle
+  const response = await fetch(`${videoUri}&key=${process.env.API_KEY}`);
+  if (!response.ok) throw new Error(`Could not download the generated video (HTTP ${response.status})`);
+  return URL.createObjectURL(await response.blob());
 };
 
 // 5. Generate/Edit Script Content (AI Writer - Multi-Turn Chat)
@@ -0,0 +1,436 @@
+import { ProjectState, ProjectSummary, ProjectSnapshot } from "../types";
+import { mapStrings, collectStrings, isBlobUrl } from "../utils/mediaRefs";
+import { migrateProjectState } from "../utils/projectSchema";
+
+// IndexedDB persistence for ProjectState.
+// Binary media behind blob: URLs (audio clips, uploaded A-roll, uploaded B-roll) cannot be
+// serialized as strings, so each blob is stored once in the "media" store and the URL inside
+// the saved state is swapped for a reference. Loading reverses the process with fresh blob URLs.
+
+const DB_NAME = "remixer-beats";
+const DB_VERSION = 3;
+const PROJECTS_STORE = "projects";
+const SUMMARIES_STORE = "project-summaries";
+const SNAPSHOTS_STORE = "snapshots";
+const MEDIA_STORE = "media";
+
+const MEDIA_REF_PREFIX = "idb-media:";
+const SESSION_KEY = "remixer-beats:active-session";
+
+const DEFAULT_PROJECT_NAME = "Untitled Project";
+
+interface StoredProject {
+  id: string;
+  state: ProjectState;
+  updatedAt: number;
+}
+
+interface StoredSnapshot {
+  id: string;
+  projectId: string;
+  name: string;
+  createdAt: number;
+  state: ProjectState;
+}
+
+interface StoredMedia {
+  id: string;
+  blob: Blob;
+}
+
+// A blob read for saving but not written yet
+interface PendingMedia extends StoredMedia {
+  url: string;
+}
+
+// Blob URLs we already persisted (or created while loading), so autosave does not re-store them
+const blobUrlToMediaId = new Map<string, string>();
+// Reverse lookup so loading the same media twice (project + snapshots) yields the same URL
+const mediaIdToBlobUrl = new Map<string, string>();
+// Bumped whenever a project or snapshot write starts, so a prune that read the stores before it can
+// tell its view is stale
+let storedStateWrites = 0;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+          db.createObjectStore(PROJECTS_STORE, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(MEDIA_STORE)) {
+          db.createObjectStore(MEDIA_STORE, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(SUMMARIES_STORE)) {
+          // Summaries are kept apart so the library can list projects without loading full states
+          const summaries = db.createObjectStore(SUMMARIES_STORE, { keyPath: "id" });
+          const tx = request.transaction;
+          if (tx) {
+            // v1 stored a single project without a summary
+            const cursorRequest = tx.objectStore(PROJECTS_STORE).openCursor();
+            cursorRequest.onsuccess = () => {
+              const cursor = cursorRequest.result;
+              if (!cursor) return;
+              const record = cursor.value as StoredProject;
+              summaries.put(summarize(record.id, DEFAULT_PROJECT_NAME, record.state, record.updatedAt, record.updatedAt));
+              cursor.continue();
+            };
+          }
+        }
+        if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) {
+          const snapshots = db.createObjectStore(SNAPSHOTS_STORE, { keyPath: "id" });
+          snapshots.createIndex("projectId", "projectId");
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error || new Error("Failed to open project database"));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error("Transaction aborted"));
+  });
+};
+
+// --- Media ---
+
+const isMediaRef = (s: string) => s.startsWith(MEDIA_REF_PREFIX);
+
+const createMediaId = () => `media-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+// Reads the blobs behind URLs that aren't stored yet. They are written in the same transaction as the
+// record that references them, so a prune never sees one without the other
+const readBlobUrls = async (urls: Set<string>): Promise<PendingMedia[]> => {
+  const pending: PendingMedia[] = [];
+  for (const url of urls) {
+    if (blobUrlToMediaId.has(url)) continue;
+    try {
+      const response = await fetch(url);
+      pending.push({ url, id: createMediaId(), blob: await response.blob() });
+    } catch (e) {
+      // Revoked URLs can't be recovered; the reference is kept as-is
+      console.warn(`Could not persist media for ${url}`, e);
+    }
+  }
+  return pending;
+};
+
+const putMedia = (tx: IDBTransaction, media: PendingMedia[]) => {
+  const store = tx.objectStore(MEDIA_STORE);
+  media.forEach(({ id, blob }) => store.put({ id, blob }));
+};
+
+// Once written, the media's URLs map to it so later saves don't store it again
+const registerMedia = (media: PendingMedia[]) => {
+  media.forEach(({ url, id }) => {
+    blobUrlToMediaId.set(url, id);
+    mediaIdToBlobUrl.set(id, url);
+  });
+};
+
+const toStoredState = (state: ProjectState, pending: PendingMedia[] = []): ProjectState => {
+  const pendingIds = new Map(pending.map(media => [media.url, media.id]));
+  return mapStrings(state, s => {
+    const mediaId = pendingIds.get(s) ?? blobUrlToMediaId.get(s);
+    return mediaId ? `${MEDIA_REF_PREFIX}${mediaId}` : s;
+  });
+};
+
+// Records written by older builds are upgraded (and validated) before their media is hydrated
+const fromStoredState = async (db: IDBDatabase, raw: unknown): Promise<ProjectState> => {
+  const stored = migrateProjectState(raw);
+  const refs = Array.from(collectStrings(stored, isMediaRef));
+  const refToUrl = new Map<string, string>();
+
+  const missing = refs.filter(ref => {
+    const url = mediaIdToBlobUrl.get(ref.slice(MEDIA_REF_PREFIX.length));
+    if (url) refToUrl.set(ref, url);
+    return !url;
+  });
+
+  // Issue every read up front so the transaction stays active
+  const tx = db.transaction(MEDIA_STORE, "readonly");
+  const store = tx.objectStore(MEDIA_STORE);
+  const records = await Promise.all(missing.map(ref =>
+    requestToPromise<StoredMedia | undefined>(store.get(ref.slice(MEDIA_REF_PREFIX.length)))
+  ));
+
+  missing.forEach((ref, i) => {
+    const media = records[i];
+    if (!media) {
+      console.warn(`Missing media for ${ref} while restoring project`);
+      return;
+    }
+    const url = URL.createObjectURL(media.blob);
+    blobUrlToMediaId.set(url, media.id);
+    mediaIdToBlobUrl.set(media.id, url);
+    refToUrl.set(ref, url);
+  });
+
+  return mapStrings(stored, s => refToUrl.get(s) ?? s);
+};
+
+// --- Projects ---
+
+const createProjectId = () => `project-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const getProjectDuration = (state: ProjectState) => {
+  return state.beats.reduce((max, b) => Math.max(max, b.endTime), 0);
+};
+
+const summarize = (
+  id: string,
+  name: string,
+  state: ProjectState,
+  createdAt: number,
+  updatedAt: number,
+  thumbnail?: string
+): ProjectSummary => ({
+  id,
+  name,
+  createdAt,
+  updatedAt,
+  thumbnail,
+  duration: getProjectDuration(state),
+  beatCount: state.beats.length
+});
+
+const getSummary = async (db: IDBDatabase, projectId: string): Promise<ProjectSummary | undefined> => {
+  const tx = db.transaction(SUMMARIES_STORE, "readonly");
+  return requestToPromise<ProjectSummary | undefined>(tx.objectStore(SUMMARIES_STORE).get(projectId));
+};
+
+const writeProject = async (db: IDBDatabase, record: StoredProject, summary: ProjectSummary, media: PendingMedia[] = []) => {
+  storedStateWrites++;
+  const tx = db.transaction([PROJECTS_STORE, SUMMARIES_STORE, MEDIA_STORE], "readwrite");
+  putMedia(tx, media);
+  tx.objectStore(PROJECTS_STORE).put(record);
+  tx.objectStore(SUMMARIES_STORE).put(summary);
+  await transactionDone(tx);
+  registerMedia(media);
+};
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const db = await openDb();
+  const tx = db.transaction(SUMMARIES_STORE, "readonly");
+  const summaries = await requestToPromise<ProjectSummary[]>(tx.objectStore(SUMMARIES_STORE).getAll());
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const createProject = async (name: string, state: ProjectState): Promise<ProjectSummary> => {
+  const db = await openDb();
+  const media = await readBlobUrls(collectStrings(state, isBlobUrl));
+
+  const now = Date.now();
+  const id = createProjectId();
+  const summary = summarize(id, name.trim() || DEFAULT_PROJECT_NAME, state, now, now);
+  await writeProject(db, { id, state: toStoredState(state, media), updatedAt: now }, summary, media);
+  return summary;
+};
+
+// `thumbnail` is only replaced when provided, so callers can skip regenerating it on every autosave
+export const saveProject = async (projectId: string, state: ProjectState, thumbnail?: string): Promise<ProjectSummary> => {
+  const db = await openDb();
+  const media = await readBlobUrls(collectStrings(state, isBlobUrl));
+
+  const now = Date.now();
+  const existing = await getSummary(db, projectId);
+  const summary = summarize(
+    projectId,
+    existing?.name || DEFAULT_PROJECT_NAME,
+    state,
+    existing?.createdAt ?? now,
+    now,
+    thumbnail ?? existing?.thumbnail
+  );
+  await writeProject(db, { id: projectId, state: toStoredState(state, media), updatedAt: now }, summary, media);
+  return summary;
+};
+
+export const loadProject = async (projectId: string): Promise<ProjectState | null> => {
+  const db = await openDb();
+  const tx = db.transaction(PROJECTS_STORE, "readonly");
+  const record = await requestToPromise<StoredProject | undefined>(tx.objectStore(PROJECTS_STORE).get(projectId));
+  if (!record) return null;
+
+  const state = await fromStoredState(db, record.state);
+  // A generation request can't survive a reload
+  return { ...state, isGeneratingVideo: false };
+};
+
+export const renameProject = async (projectId: string, name: string): Promise<void> => {
+  const db = await openDb();
+  const summary = await getSummary(db, projectId);
+  if (!summary) throw new Error("Project not found");
+
+  const tx = db.transaction(SUMMARIES_STORE, "readwrite");
+  tx.objectStore(SUMMARIES_STORE).put({ ...summary, name: name.trim() || summary.name });
+  await transactionDone(tx);
+};
+
+// Copies the stored record as-is; media blobs are shared by reference between the two projects
+export const duplicateProject = async (projectId: string): Promise<ProjectSummary> => {
+  const db = await openDb();
+  const readTx = db.transaction([PROJECTS_STORE, SUMMARIES_STORE], "readonly");
+  const [record, summary] = await Promise.all([
+    requestToPromise<StoredProject | undefined>(readTx.objectStore(PROJECTS_STORE).get(projectId)),
+    requestToPromise<ProjectSummary | undefined>(readTx.objectStore(SUMMARIES_STORE).get(projectId))
+  ]);
+  if (!record || !summary) throw new Error("Project not found");
+
+  const now = Date.now();
+  const id = createProjectId();
+  const copy: ProjectSummary = { ...summary, id, name: `${summary.name} (Copy)`, createdAt: now, updatedAt: now };
+  await writeProject(db, { id, state: record.state, updatedAt: now }, copy);
+  return copy;
+};
+
+export const deleteProject = async (projectId: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS_STORE, SUMMARIES_STORE, SNAPSHOTS_STORE], "readwrite");
+  tx.objectStore(PROJECTS_STORE).delete(projectId);
+  tx.objectStore(SUMMARIES_STORE).delete(projectId);
+  const snapshotKeys = tx.objectStore(SNAPSHOTS_STORE).index("projectId").openKeyCursor(IDBKeyRange.only(projectId));
+  snapshotKeys.onsuccess = () => {
+    const cursor = snapshotKeys.result;
+    if (!cursor) return;
+    tx.objectStore(SNAPSHOTS_STORE).delete(cursor.primaryKey);
+    cursor.continue();
+  };
+  await transactionDone(tx);
+  await pruneOrphanMedia();
+};
+
+// --- Snapshots ---
+// Named checkpoints of a project's full state. They share media blobs with the project by reference.
+
+export const createSnapshot = async (projectId: string, name: string, state: ProjectState): Promise<ProjectSnapshot> => {
+  const db = await openDb();
+  const media = await readBlobUrls(collectStrings(state, isBlobUrl));
+
+  const record: StoredSnapshot = {
+    id: `snapshot-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    projectId,
+    name: name.trim() || new Date().toLocaleString(),
+    createdAt: Date.now(),
+    state: toStoredState({ ...state, isGeneratingVideo: false }, media)
+  };
+
+  storedStateWrites++;
+  const tx = db.transaction([SNAPSHOTS_STORE, MEDIA_STORE], "readwrite");
+  putMedia(tx, media);
+  tx.objectStore(SNAPSHOTS_STORE).put(record);
+  await transactionDone(tx);
+  registerMedia(media);
+  return { ...record, state };
+};
+
+export const listSnapshots = async (projectId: string): Promise<ProjectSnapshot[]> => {
+  const db = await openDb();
+  const tx = db.transaction(SNAPSHOTS_STORE, "readonly");
+  const records = await requestToPromise<StoredSnapshot[]>(
+    tx.objectStore(SNAPSHOTS_STORE).index("projectId").getAll(IDBKeyRange.only(projectId))
+  );
+
+  const snapshots = await Promise.all(records.map(async (record): Promise<ProjectSnapshot | null> => {
+    try {
+      return { ...record, state: await fromStoredState(db, record.state) };
+    } catch (e) {
+      // One unreadable snapshot shouldn't hide the rest
+      console.warn(`Skipping snapshot "${record.name}":`, e);
+      return null;
+    }
+  }));
+  return snapshots
+    .filter((s): s is ProjectSnapshot => s !== null)
+    .sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteSnapshot = async (snapshotId: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(SNAPSHOTS_STORE, "readwrite");
+  tx.objectStore(SNAPSHOTS_STORE).delete(snapshotId);
+  await transactionDone(tx);
+};
+
+// Removes media blobs that no saved project or snapshot references anymore. Skipped when a save started
+// after the stores were read, since it may reference media this read saw as orphaned
+export const pruneOrphanMedia = async (): Promise<void> => {
+  const db = await openDb();
+  const writesBefore = storedStateWrites;
+  const readTx = db.transaction([PROJECTS_STORE, SNAPSHOTS_STORE, MEDIA_STORE], "readonly");
+  const [projects, snapshots, mediaIds] = await Promise.all([
+    requestToPromise<StoredProject[]>(readTx.objectStore(PROJECTS_STORE).getAll()),
+    requestToPromise<StoredSnapshot[]>(readTx.objectStore(SNAPSHOTS_STORE).getAll()),
+    requestToPromise<IDBValidKey[]>(readTx.objectStore(MEDIA_STORE).getAllKeys())
+  ]);
+
+  const referenced = new Set<string>();
+  [...projects, ...snapshots].forEach(p => {
+    collectStrings(p.state, isMediaRef).forEach(ref => referenced.add(ref.slice(MEDIA_REF_PREFIX.length)));
+  });
+
+  const orphans = mediaIds.map(String).filter(id => !referenced.has(id));
+  if (orphans.length === 0 || storedStateWrites !== writesBefore) return;
+
+  // Forgotten before the delete is queued, so a save starting meanwhile stores its blobs afresh
+  // instead of referencing ones about to go
+  orphans.forEach(id => {
+    const url = mediaIdToBlobUrl.get(id);
+    if (url) blobUrlToMediaId.delete(url);
+    mediaIdToBlobUrl.delete(id);
+  });
+
+  const tx = db.transaction(MEDIA_STORE, "readwrite");
+  const store = tx.objectStore(MEDIA_STORE);
+  orphans.forEach(id => store.delete(id));
+  await transactionDone(tx);
+};
+
+// --- Crash Recovery ---
+// The session marker is set while the editor is open and cleared on a clean unload, one with no edit
+// still waiting to be saved. Finding it on startup means the previous session crashed or closed mid-save.
+
+// Returns the id of the project that was open when the previous session died, if any
+export const getInterruptedProjectId = (): string | null => {
+  try {
+    return localStorage.getItem(SESSION_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const markSessionActive = (projectId: string) => {
+  try {
+    localStorage.setItem(SESSION_KEY, projectId);
+  } catch {
+    // Storage unavailable (private mode); recovery prompt is best-effort
+  }
+};
+
+export const markSessionClosed = () => {
+  try {
+    localStorage.removeItem(SESSION_KEY);
+  } catch {
+    // Ignore
+  }
+};
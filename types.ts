@@ -2,12 +2,15 @@
 
 export enum LayoutMode {
   PORTRAIT = '9:16',
-  LANDSCAPE = '16:9'
+  LANDSCAPE = '16:9',
+  SQUARE = '1:1',
+  FEED = '4:5'
 }
 
 export enum OverlayType {
   FULL = 'full',
-  SPLIT = 'split'
+  SPLIT = 'split',
+  PIP = 'pip' // B-roll fills the frame, A-roll in an inset
 }
 
 export interface AudioClip {
@@ -22,8 +25,90 @@ export interface BRollSettings {
   x: number; // percentage -50 to 50
   y: number; // percentage -50 to 50
   scale: number; // multiplier 0.5 to 3
-  height: number; // percentage 20 to 80 (for split mode)
-  aRollOffsetY?: number; // percentage 0 to 100 (for split mode vertical pan of A-roll)
+  height: number; // percentage 20 to 80 of the frame given to the B-roll in split mode (its width when side by side)
+  aRollOffsetY: number; // percentage 0 to 100 (for split mode vertical pan of A-roll)
+}
+
+export type SplitOrientation = 'stacked' | 'side-by-side';
+export type SplitOrder = 'b-roll-first' | 'a-roll-first'; // first is the top (stacked) or left (side by side)
+
+export interface SplitSettings {
+  orientation: SplitOrientation;
+  order: SplitOrder;
+  gutterWidth: number; // pixels at 1080p, scaled with the frame's short edge
+  gutterColor?: string; // When unset, the brand kit's primary colour while it is on, otherwise dark grey
+}
+
+export type PipCorner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+export type PipShape = 'rounded' | 'circle';
+
+export interface PipSettings {
+  x: number; // inset centre, percentage 0 to 100 of the frame width
+  y: number; // percentage 0 to 100 of the frame height
+  size: number; // inset width, percentage 10 to 60 of the frame's short edge
+  shape: PipShape;
+  radius: number; // corner radius for 'rounded', percentage 0 to 50 of the inset width
+  borderWidth: number; // percentage 0 to 5 of the inset width
+  borderColor: string;
+  shadow: boolean;
+}
+
+// Per-format reframing of a beat; unset fields fall back to the beat's own bRollSettings
+export type BRollOverride = Partial<BRollSettings>;
+
+export type TransitionType = 'cut' | 'crossfade' | 'slide' | 'zoom' | 'whip';
+
+export type EasingType = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out';
+
+export interface BeatTransition {
+  type: TransitionType;
+  duration: number; // seconds
+  easing: EasingType;
+}
+
+export interface BRollKeyframe {
+  time: number; // seconds from the beat's start
+  x: number; // percentage, as in BRollSettings
+  y: number;
+  scale: number;
+  rotation: number; // degrees
+  easing: EasingType; // curve towards the next keyframe
+}
+
+export type ClipEndBehavior = 'loop' | 'freeze';
+
+// A video used as a beat's B-roll. The trimmed part plays from the beat's start
+export interface BRollClip {
+  url: string;
+  duration: number; // seconds, the whole source clip
+  trimStart: number; // seconds into the source
+  trimEnd: number;
+  endBehavior: ClipEndBehavior; // When the beat outlasts the trimmed clip: play it again or hold its last frame
+  muted: boolean;
+  volume: number; // 0 to 1, mixed over the A-roll audio
+}
+
+export interface BeatSlide {
+  image: string; // usually one of the beat's bRollOptions
+  duration?: number; // seconds; slides without one share what's left of the beat evenly
+  bRollSettings?: Pick<BRollSettings, 'x' | 'y' | 'scale'>; // This image's own framing; the beat's (and its keyframes) when unset
+}
+
+// Several images shown one after another within a beat
+export interface BeatSlideshow {
+  slides: BeatSlide[];
+  transition?: BeatTransition; // Between slides; hard cut when unset
+}
+
+export type CollageLayout = '2-up' | '3-up' | '2x2';
+
+// Several images on screen at once, in a grid filling the B-roll area
+export interface BeatCollage {
+  layout: CollageLayout;
+  images: string[]; // One per cell in reading order, usually from the beat's bRollOptions; cells past the end stay empty
+  gutter: number; // pixels at 1080p between and around the cells, scaled with the frame's short edge
+  radius: number; // cell corner radius, percentage 0 to 50 of the cell's short edge
+  backgroundColor: string; // Shows through the gutters and empty cells
 }
 
 export interface BeatStyleConfig {
@@ -39,12 +124,20 @@ export interface Beat {
   endTime: number;
   textSegment: string;
   visualPrompt: string;
-  bRollImage?: string; // Base64 or URL
+  bRollImage?: string; // Base64 or URL. With a clip, its poster frame (shown until the clip has a frame)
+  bRollClip?: BRollClip; // Video B-roll, drawn instead of the image
+  slideshow?: BeatSlideshow; // Sequence of images, drawn instead of the image or clip
+  collage?: BeatCollage; // Grid of images, drawn instead of the image, clip or slideshow
   overlayType: OverlayType;
   isEnabled: boolean; // Toggle for B-Roll visibility
   bRollSettings: BRollSettings; // Positioning and Scale
   bRollOptions?: string[]; // Array of generated/uploaded images for this beat
   styleConfig?: BeatStyleConfig; // Individual override settings
+  keyframes?: BRollKeyframe[]; // Animated x/y/scale/rotation over the beat. Overrides the static bRollSettings position
+  transition?: BeatTransition; // How this beat comes in (and goes out if nothing follows it). Hard cut when unset
+  splitSettings?: SplitSettings; // Arrangement for OverlayType.SPLIT; B-roll stacked on top of the A-roll when unset
+  pipSettings?: PipSettings; // Inset placement for OverlayType.PIP; defaults to a bottom-right rounded inset
+  formatOverrides?: Partial<Record<LayoutMode, BRollOverride>>; // Reframing for specific layouts, e.g. a tighter crop on 1:1
 }
 
 export interface StyleSettings {
@@ -52,6 +145,80 @@ export interface StyleSettings {
   imageCount: number;
   referenceImage?: string;
   avatarImage?: string;
+  brandKit: BrandKit;
+}
+
+// Client branding. While enabled it restyles captions, text overlays and split gutters without their own
+// colour, and the logo is stamped onto every frame
+export interface BrandKit {
+  enabled: boolean;
+  logo?: string; // data URL
+  logoPosition: PipCorner;
+  logoSize: number; // width as a percentage of the frame's short edge
+  logoOpacity: number; // 0 to 1
+  primaryColor: string; // Caption highlight, overlay accents, default split gutter
+  secondaryColor: string; // Call-to-action buttons
+  headingFont: string; // Text overlays
+  bodyFont: string; // Captions
+}
+
+export type CaptionStyle = 'karaoke' | 'pop-in' | 'static';
+
+export interface CaptionSettings {
+  enabled: boolean;
+  style: CaptionStyle;
+  fontFamily: string;
+  fontSize: number; // percentage of the frame's short edge
+  textColor: string;
+  highlightColor: string; // karaoke: the word being spoken
+  strokeColor: string;
+  strokeWidth: number; // percentage of the font size, 0 for none
+  showBox: boolean;
+  boxColor: string;
+  boxOpacity: number; // 0 to 1
+  position: number; // percentage 0 (top) to 100 (bottom) of the layout's safe area
+}
+
+export type TextOverlayKind = 'title' | 'lower-third' | 'cta' | 'stat';
+export type TextAnimation = 'none' | 'fade' | 'slide-up' | 'pop' | 'wipe' | 'count-up';
+
+export interface TextOverlay {
+  id: string;
+  kind: TextOverlayKind;
+  text: string; // Title, name, call to action or the stat itself
+  subtext: string; // Subtitle, role, button label or what the stat measures; hidden when empty
+  beatId: string | null; // Attached overlays follow their beat's timing; free ones use startTime/endTime
+  startTime: number; // seconds
+  endTime: number;
+  x: number; // anchor, percentage 0 to 100 of the frame width (left edge for lower thirds, centre otherwise)
+  y: number; // percentage 0 to 100 of the frame height
+  fontFamily: string;
+  fontSize: number; // percentage of the frame's short edge
+  textColor: string;
+  accentColor: string; // Bar, box, button or stat colour depending on the kind
+  animation: TextAnimation;
+}
+
+export type ExportFormat = 'mp4' | 'webm';
+
+export interface TimeRange {
+  start: number; // seconds
+  end: number;
+}
+
+export interface ExportPreset {
+  id: string;
+  name: string;
+  resolution: number; // short edge in pixels (1080 = 1080x1920 portrait / 1920x1080 landscape)
+  fps: number;
+  videoBitrate: number; // bits per second
+}
+
+export interface ExportSettings {
+  presetId: string; // A built-in preset id, or 'custom' to use `custom`
+  custom: ExportPreset;
+  format: ExportFormat;
+  publishFormats: LayoutMode[]; // Layouts rendered by a publish pack export
 }
 
 export interface ScriptBlock {
@@ -93,6 +260,7 @@ export interface ChatSession {
 }
 
 export interface ProjectState {
+  schemaVersion: number; // See utils/projectSchema.ts
   textContent: string; // Deprecated
   scriptBlocks: ScriptBlock[];
   videoTranscript: string; 
@@ -103,11 +271,32 @@ export interface ProjectState {
   beats: Beat[];
   layoutMode: LayoutMode;
   styleSettings: StyleSettings;
+  exportSettings: ExportSettings;
+  captionSettings: CaptionSettings;
+  textOverlays: TextOverlay[];
   videoComments: VideoComment[];
   chatSessions: ChatSession[];
   currentChatSessionId: string | null;
 }
 
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  thumbnail?: string; // Small JPEG data URL of the composited poster frame
+  duration: number; // seconds, end of the last beat
+  beatCount: number;
+}
+
+export interface ProjectSnapshot {
+  id: string;
+  projectId: string;
+  name: string; // e.g. "v1 sent to client"
+  createdAt: number;
+  state: ProjectState;
+}
+
 export interface UserSelection {
   text: string;
   start: number;
@@ -0,0 +1,37 @@
+import { BrandKit, CaptionSettings, TextOverlay } from "../types";
+import { CAPTION_FONTS } from "./captions";
+
+// A client's brand kit, applied at draw time so switching it on (or editing a colour) restyles every
+// caption and overlay at once without touching their own settings. Switching it off brings those
+// settings back. Split gutters take the primary colour only when they have no colour of their own.
+
+export const BRAND_FONTS = CAPTION_FONTS;
+
+export const LOGO_SIZE_LIMITS = { min: 5, max: 40 };
+
+export const createBrandKit = (): BrandKit => ({
+  enabled: false,
+  logo: undefined,
+  logoPosition: 'top-right',
+  logoSize: 14,
+  logoOpacity: 0.85,
+  primaryColor: '#6366f1',
+  secondaryColor: '#d946ef',
+  headingFont: 'Inter',
+  bodyFont: 'Inter'
+});
+
+// The kit to style with, or undefined when there is none or it is switched off
+export const getActiveBrandKit = (brandKit?: BrandKit) => brandKit?.enabled ? brandKit : undefined;
+
+export const applyBrandToCaptions = (settings: CaptionSettings, brandKit: BrandKit): CaptionSettings => ({
+  ...settings,
+  fontFamily: brandKit.bodyFont,
+  highlightColor: brandKit.primaryColor
+});
+
+export const applyBrandToTextOverlay = (overlay: TextOverlay, brandKit: BrandKit): TextOverlay => ({
+  ...overlay,
+  fontFamily: brandKit.headingFont,
+  accentColor: overlay.kind === 'cta' ? brandKit.secondaryColor : brandKit.primaryColor
+});
@@ -0,0 +1,99 @@
+import { Beat, BRollClip, ClipEndBehavior } from "../types";
+import { getFrameLayout } from "./transitions";
+import { isSlideshow } from "./slideshow";
+import { isCollage } from "./collage";
+
+// Video B-roll. A clip's trimmed part plays from its beat's start; a beat that outlasts it loops the clip
+// or holds its last frame. The same time mapping drives the preview's hidden clip players and the export's
+// frame-by-frame seeks, so both show the same frame at the same project time.
+
+export const CLIP_END_BEHAVIORS: { value: ClipEndBehavior; label: string }[] = [
+  { value: 'loop', label: 'Loop' },
+  { value: 'freeze', label: 'Freeze' }
+];
+
+export const MIN_CLIP_LENGTH = 0.1; // seconds
+const FREEZE_OFFSET = 0.05; // seconds before trimEnd, so the held frame is one the decoder still has
+const PROBE_TIMEOUT_MS = 10000;
+const POSTER_MAX_SIZE = 640;
+
+export const createBRollClip = (url: string, duration: number): BRollClip => ({
+  url,
+  duration,
+  trimStart: 0,
+  trimEnd: duration,
+  endBehavior: 'loop',
+  muted: true,
+  volume: 1
+});
+
+export const getClipLength = (clip: BRollClip) => Math.max(MIN_CLIP_LENGTH, clip.trimEnd - clip.trimStart);
+
+// Source time for `local` seconds into the beat
+export const getClipTime = (clip: BRollClip, local: number) => {
+  const length = getClipLength(clip);
+  const t = Math.max(0, local);
+  if (t < length) return clip.trimStart + t;
+  return clip.endBehavior === 'loop'
+    ? clip.trimStart + t % length
+    : Math.max(clip.trimStart, clip.trimStart + length - FREEZE_OFFSET);
+};
+
+// Holding the last frame: the player should sit still rather than play on
+export const isClipFrozen = (clip: BRollClip, local: number) => clip.endBehavior === 'freeze' && local >= getClipLength(clip);
+
+// A slideshow or collage replaces the beat's clip, so it neither plays nor is heard
+export const playsClip = (beat: Beat): beat is Beat & { bRollClip: BRollClip } =>
+  !!beat.bRollClip && !isSlideshow(beat) && !isCollage(beat);
+
+// Clip audio is heard only during the beat itself, not while its image lingers in a transition
+export const isClipAudible = (beat: Beat, time: number) =>
+  playsClip(beat) && !beat.bRollClip.muted && beat.bRollClip.volume > 0 && time >= beat.startTime && time < beat.endTime;
+
+// Beats whose clip is on screen at `time`, including one transitioning out
+export const getVisibleClipBeats = (beats: Beat[], time: number): Beat[] =>
+  getFrameLayout(beats, time).layers.map(layer => layer.beat).filter(playsClip);
+
+// Duration and a poster frame (JPEG data URL) of an uploaded or generated clip. The video is requested
+// with CORS so its frames can be drawn, so a remote clip served without CORS headers fails to load and
+// this rejects. The poster is undefined if the frame can't be encoded
+export const probeClip = (url: string): Promise<{ duration: number; poster?: string }> => new Promise((resolve, reject) => {
+  const video = document.createElement("video");
+  video.crossOrigin = "anonymous";
+  video.muted = true;
+  video.preload = "auto";
+
+  const release = () => {
+    clearTimeout(timeout);
+    video.removeAttribute("src");
+    video.load();
+  };
+  const timeout = setTimeout(() => { release(); reject(new Error("Timed out loading the clip")); }, PROBE_TIMEOUT_MS);
+
+  video.onloadedmetadata = () => {
+    if (!Number.isFinite(video.duration) || video.duration <= 0) {
+      release();
+      reject(new Error("Could not read the clip's duration"));
+      return;
+    }
+    video.currentTime = Math.min(0.1, video.duration / 2);
+  };
+  video.onseeked = () => {
+    const duration = video.duration;
+    let poster: string | undefined;
+    try {
+      const scale = Math.min(1, POSTER_MAX_SIZE / Math.max(video.videoWidth, video.videoHeight));
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.max(1, Math.round(video.videoWidth * scale));
+      canvas.height = Math.max(1, Math.round(video.videoHeight * scale));
+      canvas.getContext("2d")?.drawImage(video, 0, 0, canvas.width, canvas.height);
+      poster = canvas.toDataURL("image/jpeg", 0.8);
+    } catch {
+      // Tainted canvas
+    }
+    release();
+    resolve({ duration, poster });
+  };
+  video.onerror = () => { release(); reject(new Error("Could not load the clip")); };
+  video.src = url;
+});
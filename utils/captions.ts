@@ -0,0 +1,175 @@
+import { Beat, CaptionSettings, LayoutMode } from "../types";
+import { easeOutBack } from "./easing";
+
+// Burned-in captions drawn onto a 2D canvas. The same function paints the preview overlay and the
+// exported frames, so what you see while editing is what gets rendered.
+// Beats only carry segment-level timing, so each word gets a share of its beat proportional to its length.
+
+export const CAPTION_FONTS = ['Inter', 'Arial Black', 'Impact', 'Georgia', 'Courier New'];
+
+// Fractions of the frame kept clear of platform UI (Shorts/Reels buttons and description on 9:16,
+// title-safe margins on 16:9, and a little room for the feed's own chrome on 1:1 and 4:5)
+export const CAPTION_SAFE_AREAS: Record<LayoutMode, { top: number; bottom: number; left: number; right: number }> = {
+  [LayoutMode.PORTRAIT]: { top: 0.12, bottom: 0.22, left: 0.06, right: 0.14 },
+  [LayoutMode.LANDSCAPE]: { top: 0.08, bottom: 0.1, left: 0.08, right: 0.08 },
+  [LayoutMode.SQUARE]: { top: 0.08, bottom: 0.12, left: 0.07, right: 0.07 },
+  [LayoutMode.FEED]: { top: 0.08, bottom: 0.14, left: 0.07, right: 0.07 }
+};
+
+const MAX_LINES = 2;
+const LINE_HEIGHT = 1.25; // multiple of font size
+const POP_IN_SECONDS = 0.15;
+
+export const createCaptionSettings = (): CaptionSettings => ({
+  enabled: false,
+  style: 'karaoke',
+  fontFamily: 'Inter',
+  fontSize: 6,
+  textColor: '#ffffff',
+  highlightColor: '#facc15',
+  strokeColor: '#000000',
+  strokeWidth: 12,
+  showBox: false,
+  boxColor: '#000000',
+  boxOpacity: 0.6,
+  position: 80
+});
+
+export const getCaptionFont = (settings: CaptionSettings, fontPx: number) => {
+  return `700 ${fontPx}px "${settings.fontFamily}", sans-serif`;
+};
+
+interface TimedWord {
+  text: string;
+  start: number;
+  end: number;
+}
+
+interface PlacedWord extends TimedWord {
+  x: number; // left edge, relative to the line's left edge
+  width: number;
+}
+
+interface CaptionLine {
+  words: PlacedWord[];
+  width: number;
+}
+
+const getWordTimings = (beat: Beat): TimedWord[] => {
+  const words = beat.textSegment.split(/\s+/).filter(Boolean);
+  const totalWeight = words.reduce((sum, w) => sum + w.length + 1, 0);
+  const duration = beat.endTime - beat.startTime;
+
+  let cursor = beat.startTime;
+  return words.map(text => {
+    const start = cursor;
+    cursor += duration * ((text.length + 1) / totalWeight);
+    return { text, start, end: cursor };
+  });
+};
+
+// Greedy word wrap into lines, then lines into pages of MAX_LINES
+const paginate = (ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D, words: TimedWord[], maxWidth: number): CaptionLine[][] => {
+  const spaceWidth = ctx.measureText(" ").width;
+  const lines: CaptionLine[] = [];
+  let current: CaptionLine = { words: [], width: 0 };
+
+  for (const word of words) {
+    const width = ctx.measureText(word.text).width;
+    const x = current.words.length > 0 ? current.width + spaceWidth : 0;
+    if (current.words.length > 0 && x + width > maxWidth) {
+      lines.push(current);
+      current = { words: [{ ...word, x: 0, width }], width };
+    } else {
+      current.words.push({ ...word, x, width });
+      current.width = x + width;
+    }
+  }
+  if (current.words.length > 0) lines.push(current);
+
+  const pages: CaptionLine[][] = [];
+  for (let i = 0; i < lines.length; i += MAX_LINES) pages.push(lines.slice(i, i + MAX_LINES));
+  return pages;
+};
+
+export const drawCaptions = (
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  width: number,
+  height: number,
+  layoutMode: LayoutMode,
+  beats: Beat[],
+  time: number,
+  settings: CaptionSettings
+) => {
+  if (!settings.enabled) return;
+
+  const beat = beats.find(b => time >= b.startTime && time < b.endTime);
+  if (!beat || !beat.textSegment.trim()) return;
+
+  const safe = CAPTION_SAFE_AREAS[layoutMode];
+  const safeLeft = width * safe.left;
+  const safeTop = height * safe.top;
+  const safeWidth = width * (1 - safe.left - safe.right);
+  const safeHeight = height * (1 - safe.top - safe.bottom);
+
+  const fontPx = Math.min(width, height) * (settings.fontSize / 100);
+  const lineHeight = fontPx * LINE_HEIGHT;
+  const padX = fontPx * 0.3;
+
+  ctx.save();
+  ctx.font = getCaptionFont(settings, fontPx);
+  ctx.textBaseline = "middle";
+  ctx.textAlign = "left";
+  ctx.lineJoin = "round";
+
+  const pages = paginate(ctx, getWordTimings(beat), safeWidth - padX * 2);
+  const page = pages.find(p => {
+    const last = p[p.length - 1].words;
+    return time < last[last.length - 1].end;
+  }) ?? pages[pages.length - 1];
+
+  const blockHeight = page.length * lineHeight;
+  const blockTop = safeTop + (safeHeight - blockHeight) * (settings.position / 100);
+
+  page.forEach((line, lineIndex) => {
+    const lineLeft = safeLeft + (safeWidth - line.width) / 2;
+    const centerY = blockTop + lineHeight * (lineIndex + 0.5);
+
+    const visible = settings.style === 'pop-in' ? line.words.filter(w => time >= w.start) : line.words;
+    if (visible.length === 0) return;
+
+    if (settings.showBox) {
+      const last = visible[visible.length - 1];
+      ctx.globalAlpha = settings.boxOpacity;
+      ctx.fillStyle = settings.boxColor;
+      ctx.beginPath();
+      ctx.roundRect(lineLeft - padX, centerY - lineHeight / 2, last.x + last.width + padX * 2, lineHeight, fontPx * 0.2);
+      ctx.fill();
+      ctx.globalAlpha = 1;
+    }
+
+    for (const word of visible) {
+      const isActive = time >= word.start && time < word.end;
+      const wordCenterX = lineLeft + word.x + word.width / 2;
+
+      ctx.save();
+      ctx.translate(wordCenterX, centerY);
+      if (settings.style === 'pop-in') {
+        const progress = Math.min(1, (time - word.start) / POP_IN_SECONDS);
+        const scale = 0.5 + 0.5 * easeOutBack(progress);
+        ctx.scale(scale, scale);
+      }
+
+      if (settings.strokeWidth > 0) {
+        ctx.strokeStyle = settings.strokeColor;
+        ctx.lineWidth = fontPx * (settings.strokeWidth / 100);
+        ctx.strokeText(word.text, -word.width / 2, 0);
+      }
+      ctx.fillStyle = settings.style === 'karaoke' && isActive ? settings.highlightColor : settings.textColor;
+      ctx.fillText(word.text, -word.width / 2, 0);
+      ctx.restore();
+    }
+  });
+
+  ctx.restore();
+};
@@ -0,0 +1,69 @@
+import { Beat, BeatCollage, CollageLayout } from "../types";
+import { SplitRect } from "./splitLayout";
+
+// Collages: a beat that shows several of its images at once in a grid, for before/after and listicle
+// beats. The grid fills the B-roll area, whole frame or one side of a split, and 2-up and 3-up grids run
+// along the area's long side, so one collage reads side by side in a wide area and stacked in a tall one.
+
+export const COLLAGE_LAYOUTS: { value: CollageLayout; label: string; cells: number }[] = [
+  { value: '2-up', label: '2-up', cells: 2 },
+  { value: '3-up', label: '3-up', cells: 3 },
+  { value: '2x2', label: '2x2', cells: 4 }
+];
+
+export const COLLAGE_GUTTER_LIMITS = { min: 0, max: 40 };
+export const COLLAGE_RADIUS_LIMITS = { min: 0, max: 50 };
+
+const REFERENCE_SHORT_EDGE = 1080;
+
+export const isCollage = (beat: Beat | null) => (beat?.collage?.images.length ?? 0) > 0;
+
+export const getCollageCellCount = (layout: CollageLayout) =>
+  COLLAGE_LAYOUTS.find(l => l.value === layout)?.cells ?? 2;
+
+// Images a collage can pick from: the beat's current image and its other options
+export const getCollageChoices = (beat: Beat) =>
+  [...new Set([beat.bRollImage, ...(beat.bRollOptions ?? [])].filter(Boolean) as string[])];
+
+// The beat's current image first, then its other options, as many as the layout has cells
+export const createCollage = (beat: Beat, layout: CollageLayout = '2-up'): BeatCollage => ({
+  layout,
+  images: getCollageChoices(beat).slice(0, getCollageCellCount(layout)),
+  gutter: 12,
+  radius: 4,
+  backgroundColor: '#000000'
+});
+
+// Keeps the images already placed; new cells are filled from the beat's options not yet in the grid
+export const setCollageLayout = (collage: BeatCollage, beat: Beat, layout: CollageLayout): BeatCollage => {
+  const unused = getCollageChoices(beat).filter(image => !collage.images.includes(image));
+  return { ...collage, layout, images: [...collage.images, ...unused].slice(0, getCollageCellCount(layout)) };
+};
+
+// The collage with one cell's image replaced. An image already in another cell swaps places with it
+export const setCollageImage = (collage: BeatCollage, index: number, image: string): BeatCollage => {
+  const images = [...collage.images];
+  const existing = images.indexOf(image);
+  if (existing !== -1) images[existing] = images[index];
+  images[index] = image;
+  return { ...collage, images: images.filter(Boolean) };
+};
+
+// Cells inside `area` in reading order, inset by the gutter on every side. Empty when the gutters leave
+// no room for them
+export const getCollageCells = (area: SplitRect, collage: BeatCollage, frameShortEdge: number): SplitRect[] => {
+  const count = getCollageCellCount(collage.layout);
+  const gap = collage.gutter > 0 ? Math.max(1, Math.round(frameShortEdge * collage.gutter / REFERENCE_SHORT_EDGE)) : 0;
+  const columns = collage.layout === '2x2' ? 2 : area.width >= area.height ? count : 1;
+  const rows = count / columns;
+  const cellWidth = (area.width - gap * (columns + 1)) / columns;
+  const cellHeight = (area.height - gap * (rows + 1)) / rows;
+  if (cellWidth <= 0 || cellHeight <= 0) return [];
+
+  return Array.from({ length: count }, (_, i) => ({
+    x: area.x + gap + (i % columns) * (cellWidth + gap),
+    y: area.y + gap + Math.floor(i / columns) * (cellHeight + gap),
+    width: cellWidth,
+    height: cellHeight
+  }));
+};
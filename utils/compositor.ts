@@ -0,0 +1,293 @@
+import { Beat, BeatCollage, BrandKit, CaptionSettings, LayoutMode, OverlayType, TextOverlay } from "../types";
+import { PipFrame, getFrameLayout } from "./transitions";
+import { drawCaptions } from "./captions";
+import { resolveBeatsForLayout } from "./layoutModes";
+import { createPipSettings, getPipRect } from "./pip";
+import { SplitRect, getGutterColor, getSplitRects } from "./splitLayout";
+import { drawTextOverlays } from "./textOverlays";
+import { applyBrandToCaptions, applyBrandToTextOverlay, getActiveBrandKit } from "./brandKit";
+import { getCollageCells, isCollage } from "./collage";
+
+// The one place a frame is drawn. The live preview canvas, every exported frame and the poster
+// thumbnails all call drawComposite with the project state and a time, so what you see is what you export.
+// All sizes are proportional to the target canvas, so a small preview matches a 4K export.
+
+export type Canvas2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// A drawable with its intrinsic size (videoWidth/naturalWidth differ by element type, so callers resolve it)
+export interface FrameSource {
+  image: CanvasImageSource;
+  width: number;
+  height: number;
+}
+
+export type ImageSources = Record<string, FrameSource>;
+
+export interface CompositorScene {
+  beats: Beat[];
+  layoutMode: LayoutMode;
+  captionSettings?: CaptionSettings;
+  textOverlays?: TextOverlay[];
+  brandKit?: BrandKit;
+}
+
+export interface CompositorSources {
+  aRoll: FrameSource | null; // null while the A-roll has no decoded frame yet
+  images: ImageSources; // keyed by bRollImage URL
+  clips?: ImageSources; // current frame of each on-screen beat's video clip, keyed by beat id
+}
+
+const BACKGROUND = "#000";
+const SPLIT_BACKGROUND = "#111827"; // B-roll area of a split beat without an image
+const PIP_SHADOW = "rgba(0, 0, 0, 0.5)";
+const LOGO_MARGIN = 0.04; // fraction of the short edge
+
+// A PIP beat without inset settings (older or hand-edited projects) gets the default bottom-right inset
+// rather than losing its A-roll
+const withPipDefaults = (beats: Beat[], layoutMode: LayoutMode): Beat[] => {
+  const needsDefault = (beat: Beat) => beat.overlayType === OverlayType.PIP && !beat.pipSettings;
+  if (!beats.some(needsDefault)) return beats;
+  return beats.map(beat => needsDefault(beat) ? { ...beat, pipSettings: createPipSettings(layoutMode) } : beat);
+};
+
+// Captions and overlays as they will be drawn, restyled by the brand kit while it is on
+const getSceneText = (scene: CompositorScene) => {
+  const brandKit = getActiveBrandKit(scene.brandKit);
+  if (!brandKit) return { captionSettings: scene.captionSettings, textOverlays: scene.textOverlays ?? [] };
+  return {
+    captionSettings: scene.captionSettings && applyBrandToCaptions(scene.captionSettings, brandKit),
+    textOverlays: (scene.textOverlays ?? []).map(overlay => applyBrandToTextOverlay(overlay, brandKit))
+  };
+};
+
+// Font families the scene draws text with, so callers can load them before painting
+export const getSceneFonts = (scene: CompositorScene): string[] => {
+  const { captionSettings, textOverlays } = getSceneText(scene);
+  const captions = captionSettings?.enabled ? [captionSettings.fontFamily] : [];
+  return [...new Set([...captions, ...textOverlays.map(overlay => overlay.fontFamily)])];
+};
+
+// The current frame of a playing or seeked video, or null if nothing is decoded yet
+export const getVideoSource = (video: HTMLVideoElement | null | undefined): FrameSource | null => {
+  if (!video || video.readyState < 2 || !video.videoWidth || !video.videoHeight) return null;
+  return { image: video, width: video.videoWidth, height: video.videoHeight };
+};
+
+export const loadImage = (url: string): Promise<FrameSource | null> => new Promise((resolve) => {
+  const img = new Image();
+  img.crossOrigin = "anonymous";
+  img.onload = () => resolve({ image: img, width: img.naturalWidth, height: img.naturalHeight });
+  img.onerror = () => resolve(null);
+  img.src = url;
+});
+
+// B-roll images the beats reference (slideshows and collages included), plus the brand logo while the kit is on
+export const getSceneImageUrls = (scene: Pick<CompositorScene, 'beats' | 'brandKit'>) => {
+  const logo = getActiveBrandKit(scene.brandKit)?.logo;
+  const slides = scene.beats.flatMap(b => b.slideshow?.slides.map(slide => slide.image) ?? []);
+  const cells = scene.beats.flatMap(b => b.collage?.images ?? []);
+  return Array.from(new Set([...scene.beats.map(b => b.bRollImage), ...slides, ...cells, logo].filter(Boolean) as string[]));
+};
+
+// Loads every image the scene references into `cache`, skipping ones already there or broken
+export const loadSceneImages = async (scene: Pick<CompositorScene, 'beats' | 'brandKit'>, cache: ImageSources = {}): Promise<ImageSources> => {
+  const missing = getSceneImageUrls(scene).filter(url => !cache[url]);
+  const loaded = await Promise.all(missing.map(loadImage));
+  missing.forEach((url, i) => {
+    const source = loaded[i];
+    if (source) cache[url] = source;
+  });
+  return cache;
+};
+
+// Crops a source to fill the target box entirely; `alignY` picks the vertical crop (0 top, 1 bottom)
+const drawCover = (ctx: Canvas2D, src: FrameSource, x: number, y: number, w: number, h: number, alignY = 0.5) => {
+  const srcRatio = src.width / src.height;
+  const targetRatio = w / h;
+  let sW = src.width, sH = src.height, sX = 0, sY = 0;
+
+  if (srcRatio > targetRatio) {
+    // Source is wider than target: crop width (centered)
+    sW = sH * targetRatio;
+    sX = (src.width - sW) / 2;
+  } else {
+    // Source is taller than target: crop height (pan)
+    sH = sW / targetRatio;
+    sY = (src.height - sH) * alignY;
+  }
+  ctx.drawImage(src.image, sX, sY, sW, sH, x, y, w, h);
+};
+
+const drawContain = (ctx: Canvas2D, src: FrameSource, x: number, y: number, w: number, h: number) => {
+  const scale = Math.min(w / src.width, h / src.height);
+  const dW = src.width * scale;
+  const dH = src.height * scale;
+  ctx.drawImage(src.image, x + (w - dW) / 2, y + (h - dH) / 2, dW, dH);
+};
+
+// The A-roll inset: shadow under the shape, the video cropped into it, then the border on top
+const drawPip = (ctx: Canvas2D, width: number, height: number, aRoll: FrameSource, pip: PipFrame, alignY: number) => {
+  const { settings } = pip;
+  const rect = getPipRect(settings, width, height);
+  const radius = settings.shape === 'circle' ? rect.width / 2 : rect.width * settings.radius / 100;
+  const shape = () => {
+    ctx.beginPath();
+    ctx.roundRect(rect.x, rect.y, rect.width, rect.height, Math.min(radius, rect.width / 2, rect.height / 2));
+  };
+
+  ctx.save();
+  ctx.globalAlpha = pip.opacity;
+  if (settings.shadow) {
+    ctx.save();
+    ctx.shadowColor = PIP_SHADOW;
+    ctx.shadowBlur = rect.width * 0.08;
+    ctx.shadowOffsetY = rect.width * 0.02;
+    ctx.fillStyle = BACKGROUND;
+    shape();
+    ctx.fill();
+    ctx.restore();
+  }
+
+  ctx.save();
+  shape();
+  ctx.clip();
+  drawCover(ctx, aRoll, rect.x, rect.y, rect.width, rect.height, alignY);
+  ctx.restore();
+
+  if (settings.borderWidth > 0) {
+    ctx.lineWidth = rect.width * settings.borderWidth / 100;
+    ctx.strokeStyle = settings.borderColor;
+    shape();
+    ctx.stroke();
+  }
+  ctx.restore();
+};
+
+// Each collage image cropped into its rounded cell over the collage background. Images still loading
+// leave their cell empty
+const drawCollage = (ctx: Canvas2D, area: SplitRect, collage: BeatCollage, images: ImageSources, shortEdge: number) => {
+  ctx.fillStyle = collage.backgroundColor;
+  ctx.fillRect(area.x, area.y, area.width, area.height);
+  getCollageCells(area, collage, shortEdge).forEach((cell, i) => {
+    const img = collage.images[i] ? images[collage.images[i]] : undefined;
+    if (!img) return;
+    ctx.save();
+    ctx.beginPath();
+    ctx.roundRect(cell.x, cell.y, cell.width, cell.height, Math.min(cell.width, cell.height) * collage.radius / 100);
+    ctx.clip();
+    drawCover(ctx, img, cell.x, cell.y, cell.width, cell.height);
+    ctx.restore();
+  });
+};
+
+// The brand logo tucked into its corner, sized off the short edge so it reads the same in every layout
+const drawLogo = (ctx: Canvas2D, width: number, height: number, logo: FrameSource, brandKit: BrandKit) => {
+  const shortEdge = Math.min(width, height);
+  const margin = shortEdge * LOGO_MARGIN;
+  const w = shortEdge * brandKit.logoSize / 100;
+  const h = w * logo.height / logo.width;
+  const x = brandKit.logoPosition.endsWith('left') ? margin : width - margin - w;
+  const y = brandKit.logoPosition.startsWith('top') ? margin : height - margin - h;
+
+  ctx.save();
+  ctx.globalAlpha = brandKit.logoOpacity;
+  ctx.drawImage(logo.image, x, y, w, h);
+  ctx.restore();
+};
+
+export const drawComposite = (
+  ctx: Canvas2D,
+  width: number,
+  height: number,
+  scene: CompositorScene,
+  time: number,
+  sources: CompositorSources
+) => {
+  const layout = getFrameLayout(withPipDefaults(resolveBeatsForLayout(scene.beats, scene.layoutMode), scene.layoutMode), time);
+  const brandKit = getActiveBrandKit(scene.brandKit);
+  const { captionSettings, textOverlays } = getSceneText(scene);
+  const split = layout.splitHeight !== null
+    ? getSplitRects(width, height, layout.splitHeight / 100, layout.split)
+    : null;
+
+  ctx.fillStyle = BACKGROUND;
+  ctx.fillRect(0, 0, width, height);
+
+  // --- A-roll: cropped into its side of the split, or letterboxed over the whole frame ---
+  const aRoll = sources.aRoll;
+  if (split) {
+    const { x, y, width: w, height: h } = split.aRoll;
+    if (aRoll && w > 0 && h > 0) drawCover(ctx, aRoll, x, y, w, h, layout.aRollOffsetY / 100);
+  } else if (aRoll) {
+    drawContain(ctx, aRoll, 0, 0, width, height);
+  }
+
+  // --- B-roll layers, clipped to their area ---
+  const area = split ? split.bRoll : { x: 0, y: 0, width, height };
+  const { width: areaW, height: areaH } = area;
+  if (areaW > 0 && areaH > 0) {
+    if (split) {
+      ctx.fillStyle = SPLIT_BACKGROUND;
+      ctx.fillRect(area.x, area.y, areaW, areaH);
+    }
+
+    for (const layer of layout.layers) {
+      const collage = isCollage(layer.beat) ? layer.beat.collage : undefined;
+      // A clip without a decoded frame yet falls back to its poster
+      const img = sources.clips?.[layer.beat.id] ?? (layer.beat.bRollImage ? sources.images[layer.beat.bRollImage] : undefined);
+      if ((!collage && !img) || layer.opacity <= 0) continue;
+
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(area.x, area.y, areaW, areaH);
+      ctx.clip();
+
+      ctx.globalAlpha = layer.opacity;
+      if (layer.blur > 0) ctx.filter = `blur(${layer.blur * areaW}px)`;
+
+      // A collage moves and scales as one block with its transition, but the beat's own framing doesn't
+      // apply: each image is cropped into its cell
+      if (collage) {
+        const centerX = area.x + areaW / 2, centerY = area.y + areaH / 2;
+        ctx.translate(centerX + layer.offsetX * areaW, centerY + layer.offsetY * areaH);
+        ctx.scale(layer.scale, layer.scale);
+        ctx.translate(-centerX, -centerY);
+        drawCollage(ctx, area, collage, sources.images, Math.min(width, height));
+      } else if (img) {
+        // Center -> translate -> scale -> rotate. The whole image is drawn at cover size rather than
+        // cropped to the area, so panning reveals more of it instead of empty space
+        const { x, y, scale, rotation } = layer.transform;
+        ctx.translate(area.x + areaW / 2 + (x / 100 + layer.offsetX) * areaW, area.y + areaH / 2 + (y / 100 + layer.offsetY) * areaH);
+        ctx.scale(scale * layer.scale, scale * layer.scale);
+        if (rotation) ctx.rotate(rotation * Math.PI / 180);
+        const cover = Math.max(areaW / img.width, areaH / img.height);
+        ctx.drawImage(img.image, -img.width * cover / 2, -img.height * cover / 2, img.width * cover, img.height * cover);
+      }
+      ctx.restore();
+    }
+  }
+
+  // --- Gutter over the seam of a split ---
+  if (split?.gutter) {
+    ctx.fillStyle = getGutterColor(layout.split, brandKit);
+    ctx.fillRect(split.gutter.x, split.gutter.y, split.gutter.width, split.gutter.height);
+  }
+
+  if (layout.pip && aRoll && layout.pip.opacity > 0) {
+    drawPip(ctx, width, height, aRoll, layout.pip, layout.aRollOffsetY / 100);
+  }
+
+  if (textOverlays.length) {
+    drawTextOverlays(ctx, width, height, textOverlays, scene.beats, time);
+  }
+
+  if (captionSettings) {
+    drawCaptions(ctx, width, height, scene.layoutMode, scene.beats, time, captionSettings);
+  }
+
+  // --- Logo stamped over everything ---
+  const logo = brandKit?.logo ? sources.images[brandKit.logo] : undefined;
+  if (brandKit && logo && brandKit.logoOpacity > 0) {
+    drawLogo(ctx, width, height, logo, brandKit);
+  }
+};
@@ -0,0 +1,29 @@
+import { EasingType } from "../types";
+
+// Easing curves over normalised progress (0 to 1)
+export const EASINGS: Record<EasingType, (t: number) => number> = {
+  'linear': t => t,
+  'ease-in': t => t * t * t,
+  'ease-out': t => 1 - Math.pow(1 - t, 3),
+  'ease-in-out': t => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2)
+};
+
+export const EASING_TYPES: { value: EasingType; label: string }[] = [
+  { value: 'linear', label: 'Linear' },
+  { value: 'ease-in', label: 'In' },
+  { value: 'ease-out', label: 'Out' },
+  { value: 'ease-in-out', label: 'In-Out' }
+];
+
+export const clamp01 = (t: number) => Math.min(1, Math.max(0, t));
+
+export const applyEasing = (easing: EasingType, t: number) => (EASINGS[easing] ?? EASINGS.linear)(clamp01(t));
+
+export const lerp = (from: number, to: number, t: number) => from + (to - from) * t;
+
+// Overshoots slightly before settling, for things that pop in
+export const easeOutBack = (t: number) => {
+  const c1 = 1.70158;
+  const c3 = c1 + 1;
+  return 1 + c3 * Math.pow(t - 1, 3) + c1 * Math.pow(t - 1, 2);
+};
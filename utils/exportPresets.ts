@@ -0,0 +1,54 @@
+import { ExportPreset, ExportSettings, LayoutMode } from "../types";
+import { LAYOUT_ASPECTS } from "./layoutModes";
+
+export const CUSTOM_PRESET_ID = 'custom';
+
+export const EXPORT_PRESETS: ExportPreset[] = [
+  { id: 'shorts-1080p30', name: 'Shorts 1080p30', resolution: 1080, fps: 30, videoBitrate: 8_000_000 },
+  { id: 'reels-1080p60', name: 'Reels 1080p60', resolution: 1080, fps: 60, videoBitrate: 12_000_000 },
+  { id: 'draft-540p', name: 'Draft 540p', resolution: 540, fps: 30, videoBitrate: 2_000_000 },
+  { id: 'master-4k', name: '4K Master', resolution: 2160, fps: 30, videoBitrate: 40_000_000 }
+];
+
+// Bounds for the custom preset fields
+export const EXPORT_LIMITS = {
+  resolution: { min: 240, max: 2160 },
+  fps: { min: 12, max: 60 },
+  videoBitrate: { min: 500_000, max: 80_000_000 }
+};
+
+export const createExportSettings = (): ExportSettings => ({
+  presetId: EXPORT_PRESETS[0].id,
+  custom: { ...EXPORT_PRESETS[0], id: CUSTOM_PRESET_ID, name: 'Custom' },
+  format: 'mp4',
+  publishFormats: [LayoutMode.PORTRAIT, LayoutMode.SQUARE, LayoutMode.LANDSCAPE]
+});
+
+const clamp = (value: number, { min, max }: { min: number; max: number }) => Math.min(max, Math.max(min, value));
+
+// Custom fields are stored as typed, so half-entered values are only bounded when used
+export const clampPreset = (preset: ExportPreset): ExportPreset => ({
+  ...preset,
+  resolution: clamp(preset.resolution, EXPORT_LIMITS.resolution),
+  fps: clamp(preset.fps, EXPORT_LIMITS.fps),
+  videoBitrate: clamp(preset.videoBitrate, EXPORT_LIMITS.videoBitrate)
+});
+
+export const resolveExportPreset = (settings: ExportSettings): ExportPreset => {
+  if (settings.presetId === CUSTOM_PRESET_ID) return clampPreset(settings.custom);
+  return EXPORT_PRESETS.find(p => p.id === settings.presetId) ?? EXPORT_PRESETS[0];
+};
+
+const toEven = (n: number) => Math.max(2, Math.round(n / 2) * 2); // H.264 needs even dimensions
+
+// Output canvas size for a layout at the preset's short-edge resolution
+export const getOutputSize = (layoutMode: LayoutMode, resolution: number): { width: number; height: number } => {
+  const aspect = LAYOUT_ASPECTS[layoutMode];
+  const shortEdge = Math.min(aspect.width, aspect.height);
+  return {
+    width: toEven(resolution * aspect.width / shortEdge),
+    height: toEven(resolution * aspect.height / shortEdge)
+  };
+};
+
+export const formatBitrate = (bps: number) => `${(bps / 1_000_000).toFixed(bps < 10_000_000 ? 1 : 0)} Mbps`;
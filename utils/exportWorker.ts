@@ -0,0 +1,312 @@
+import { Muxer as WebMMuxer, ArrayBufferTarget as WebMTarget } from "webm-muxer";
+import { Muxer as Mp4Muxer, ArrayBufferTarget as Mp4Target } from "mp4-muxer";
+import { ExportFormat } from "../types";
+import { CompositorScene, ImageSources, drawComposite, getSceneFonts } from "./compositor";
+import { CodecChoice, EXPORT_FORMATS } from "./renderUtils";
+
+// Export worker: composites each frame on an OffscreenCanvas with the shared compositor, encodes video and
+// audio with WebCodecs and muxes the file, so none of that runs on the editor's thread.
+// The main thread still owns the <video> elements (workers can't decode media through one), so it seeks,
+// captures each A-roll frame, and the frame of every B-roll clip on screen, as VideoFrames and transfers
+// them here; see renderVideoToBlob.
+
+export interface DecodedAudio {
+  sampleRate: number;
+  channels: Float32Array[]; // planar, at most two
+}
+
+export type ExportWorkerRequest =
+  | {
+      type: 'start';
+      scene: CompositorScene;
+      width: number;
+      height: number;
+      fps: number;
+      format: ExportFormat; // requested; the worker may fall back to the other container
+      videoBitrate: number;
+      audioBitrate: number;
+      startTime: number; // project time of the first frame
+      duration: number;
+      audio: DecodedAudio | null; // already trimmed to start at startTime
+      images: Record<string, ImageBitmap>;
+    }
+  | { type: 'frame'; index: number; frame: VideoFrame | null; clips: Record<string, VideoFrame> } // frame is null when the A-roll had no frame to give; clips are keyed by beat id
+  | { type: 'finish' }
+  | { type: 'cancel' };
+
+export type ExportWorkerResponse =
+  | { type: 'ready'; format: ExportFormat; hasAudio: boolean }
+  | { type: 'frameEncoded'; index: number }
+  | { type: 'done'; buffer: ArrayBuffer; format: ExportFormat; hasAudio: boolean }
+  | { type: 'error'; message: string };
+
+// The DOM lib types `self` as Window; this is the slice of the worker scope used here
+interface ExportWorkerScope {
+  onmessage: ((event: MessageEvent<ExportWorkerRequest>) => void) | null;
+  postMessage: (message: ExportWorkerResponse, transfer?: Transferable[]) => void;
+  fonts: FontFaceSet;
+}
+
+const scope = self as unknown as ExportWorkerScope;
+
+const AUDIO_CHUNK_FRAMES = 4800; // 100ms per AudioData at 48 kHz
+const KEYFRAME_INTERVAL_SECONDS = 2;
+const MAX_ENCODE_QUEUE = 8;
+const GOOGLE_FONTS_CSS = "https://fonts.googleapis.com/css2";
+
+const waitForEvent = (target: EventTarget, event: string) => new Promise<void>((resolve) => {
+  target.addEventListener(event, () => resolve(), { once: true });
+});
+
+// Splits the decoded track into AudioData chunks (planar float32) and encodes them in order
+const encodeAudio = async (encoder: AudioEncoder, audio: DecodedAudio, duration: number) => {
+  const numberOfChannels = audio.channels.length;
+  const totalFrames = Math.min(audio.channels[0].length, Math.round(duration * audio.sampleRate));
+
+  for (let offset = 0; offset < totalFrames; offset += AUDIO_CHUNK_FRAMES) {
+    const frames = Math.min(AUDIO_CHUNK_FRAMES, totalFrames - offset);
+    const planes = new Float32Array(frames * numberOfChannels);
+    audio.channels.forEach((channel, c) => planes.set(channel.subarray(offset, offset + frames), c * frames));
+
+    const data = new AudioData({
+      format: "f32-planar",
+      sampleRate: audio.sampleRate,
+      numberOfFrames: frames,
+      numberOfChannels,
+      timestamp: Math.round((offset / audio.sampleRate) * 1e6),
+      data: planes
+    });
+    encoder.encode(data);
+    data.close();
+
+    if (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) await waitForEvent(encoder, "dequeue");
+  }
+};
+
+interface ContainerMuxer {
+  addVideoChunk: (chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata) => void;
+  addAudioChunk: (chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata) => void;
+  finalize: () => ArrayBuffer;
+}
+
+const createMuxer = (
+  format: ExportFormat,
+  video: { muxerCodec: string; width: number; height: number; fps: number },
+  audio: { muxerCodec: string; sampleRate: number; numberOfChannels: number } | null
+): ContainerMuxer => {
+  if (format === 'mp4') {
+    const muxer = new Mp4Muxer({
+      target: new Mp4Target(),
+      video: { codec: video.muxerCodec as 'avc', width: video.width, height: video.height, frameRate: video.fps },
+      audio: audio ? { codec: audio.muxerCodec as 'aac' | 'opus', sampleRate: audio.sampleRate, numberOfChannels: audio.numberOfChannels } : undefined,
+      fastStart: "in-memory", // moov up front so players can start before the download finishes
+      firstTimestampBehavior: "offset"
+    });
+    return {
+      addVideoChunk: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+      addAudioChunk: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+      finalize: () => { muxer.finalize(); return muxer.target.buffer; }
+    };
+  }
+
+  const muxer = new WebMMuxer({
+    target: new WebMTarget(),
+    video: { codec: video.muxerCodec, width: video.width, height: video.height, frameRate: video.fps },
+    audio: audio ? { codec: audio.muxerCodec, sampleRate: audio.sampleRate, numberOfChannels: audio.numberOfChannels } : undefined,
+    firstTimestampBehavior: "offset"
+  });
+  return {
+    addVideoChunk: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    addAudioChunk: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+    finalize: () => { muxer.finalize(); return muxer.target.buffer; }
+  };
+};
+
+// Picks the first video codec the browser can encode, trying the requested container before the other one
+const resolveVideoCodec = async (
+  requested: ExportFormat,
+  baseConfig: Omit<VideoEncoderConfig, "codec">
+): Promise<{ format: ExportFormat; choice: CodecChoice; config: VideoEncoderConfig } | null> => {
+  const order: ExportFormat[] = requested === 'mp4' ? ['mp4', 'webm'] : ['webm', 'mp4'];
+  for (const format of order) {
+    for (const choice of EXPORT_FORMATS[format].videoCodecs) {
+      const config: VideoEncoderConfig = format === 'mp4'
+        ? { ...baseConfig, codec: choice.codec, avc: { format: "avc" } }
+        : { ...baseConfig, codec: choice.codec };
+      const support = await VideoEncoder.isConfigSupported(config).catch(() => null);
+      if (support?.supported) return { format, choice, config };
+    }
+  }
+  return null;
+};
+
+const resolveAudioCodec = async (
+  format: ExportFormat,
+  baseConfig: Omit<AudioEncoderConfig, "codec">
+): Promise<{ choice: CodecChoice; config: AudioEncoderConfig } | null> => {
+  for (const choice of EXPORT_FORMATS[format].audioCodecs) {
+    const config: AudioEncoderConfig = { ...baseConfig, codec: choice.codec };
+    const support = await AudioEncoder.isConfigSupported(config).catch(() => null);
+    if (support?.supported) return { choice, config };
+  }
+  return null;
+};
+
+// Stylesheet fonts live in the document, not here. System fonts work as-is; web fonts are fetched from
+// Google Fonts (where the editor loads them from) and anything else falls back to sans-serif.
+const loadFont = async (family: string) => {
+  try {
+    const css = await (await fetch(`${GOOGLE_FONTS_CSS}?family=${encodeURIComponent(family)}:wght@700`)).text();
+    const faces = [...css.matchAll(/@font-face\s*{([^}]*)}/g)].map(([, block]) => {
+      const url = block.match(/src:\s*url\(([^)]+)\)/)?.[1];
+      const unicodeRange = block.match(/unicode-range:\s*([^;]+);/)?.[1];
+      return url ? new FontFace(family, `url(${url})`, { weight: "700", unicodeRange }) : null;
+    }).filter((face): face is FontFace => !!face);
+    await Promise.all(faces.map(async face => scope.fonts.add(await face.load())));
+  } catch {
+    // Not a web font, or offline
+  }
+};
+
+interface EncodeJob {
+  scene: CompositorScene;
+  canvas: OffscreenCanvas;
+  ctx: OffscreenCanvasRenderingContext2D;
+  images: ImageSources;
+  startTime: number;
+  fps: number;
+  format: ExportFormat;
+  muxer: ContainerMuxer;
+  videoEncoder: VideoEncoder;
+  audioEncoder: AudioEncoder | null;
+  encodeError: Error | null;
+}
+
+let job: EncodeJob | null = null;
+
+const closeJob = () => {
+  if (!job) return;
+  if (job.videoEncoder.state !== "closed") job.videoEncoder.close();
+  if (job.audioEncoder && job.audioEncoder.state !== "closed") job.audioEncoder.close();
+  Object.values(job.images).forEach(source => (source.image as ImageBitmap).close());
+  job = null;
+};
+
+const startJob = async (request: Extract<ExportWorkerRequest, { type: 'start' }>) => {
+  const { scene, width, height, fps, videoBitrate, audioBitrate, startTime, duration, audio } = request;
+
+  const videoCodec = await resolveVideoCodec(request.format, { width, height, bitrate: videoBitrate, framerate: fps });
+  if (!videoCodec) throw new Error(`This browser can't encode ${width}x${height} video in MP4 or WebM.`);
+  const { format } = videoCodec;
+  if (format !== request.format) {
+    console.warn(`${EXPORT_FORMATS[request.format].label} encoding unsupported; falling back to ${EXPORT_FORMATS[format].label}`);
+  }
+
+  const audioCodec = audio ? await resolveAudioCodec(format, {
+    sampleRate: audio.sampleRate,
+    numberOfChannels: audio.channels.length,
+    bitrate: audioBitrate
+  }) : null;
+  if (audio && !audioCodec) console.warn(`No supported audio encoder for ${EXPORT_FORMATS[format].label}; exporting without audio`);
+
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  const muxer = createMuxer(
+    format,
+    { muxerCodec: videoCodec.choice.muxerCodec, width, height, fps },
+    audioCodec ? { muxerCodec: audioCodec.choice.muxerCodec, sampleRate: audioCodec.config.sampleRate, numberOfChannels: audioCodec.config.numberOfChannels } : null
+  );
+
+  const images: ImageSources = {};
+  for (const [url, bitmap] of Object.entries(request.images)) {
+    images[url] = { image: bitmap, width: bitmap.width, height: bitmap.height };
+  }
+
+  const current: EncodeJob = {
+    scene, canvas, ctx, images, startTime, fps, format, muxer,
+    videoEncoder: new VideoEncoder({
+      output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+      error: (e) => { current.encodeError = e; }
+    }),
+    audioEncoder: audioCodec ? new AudioEncoder({
+      output: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+      error: (e) => { current.encodeError = e; }
+    }) : null,
+    encodeError: null
+  };
+  job = current;
+  current.videoEncoder.configure(videoCodec.config);
+  current.audioEncoder?.configure(audioCodec!.config);
+
+  await Promise.all(getSceneFonts(scene).map(loadFont));
+
+  // Audio is encoded up front; it's cheap next to the video frames
+  if (current.audioEncoder && audio) await encodeAudio(current.audioEncoder, audio, duration);
+
+  scope.postMessage({ type: 'ready', format, hasAudio: !!current.audioEncoder });
+};
+
+const toFrameSource = (frame: VideoFrame) => ({ image: frame, width: frame.displayWidth, height: frame.displayHeight });
+
+const encodeFrame = async (index: number, aRoll: VideoFrame | null, clips: Record<string, VideoFrame>) => {
+  try {
+    if (!job) return; // Cancelled while the frame was in flight
+    if (job.encodeError) throw job.encodeError;
+
+    const { ctx, canvas, scene, startTime, fps, images, videoEncoder } = job;
+    const time = startTime + index / fps; // Timestamps in the file still start at 0
+    drawComposite(ctx, canvas.width, canvas.height, scene, time, {
+      aRoll: aRoll ? toFrameSource(aRoll) : null,
+      images,
+      clips: Object.fromEntries(Object.entries(clips).map(([beatId, frame]) => [beatId, toFrameSource(frame)]))
+    });
+
+    const frameDuration = 1e6 / fps;
+    const frame = new VideoFrame(canvas, { timestamp: Math.round(index * frameDuration), duration: Math.round(frameDuration) });
+    videoEncoder.encode(frame, { keyFrame: index % Math.round(fps * KEYFRAME_INTERVAL_SECONDS) === 0 });
+    frame.close();
+
+    if (videoEncoder.encodeQueueSize > MAX_ENCODE_QUEUE) await waitForEvent(videoEncoder, "dequeue");
+    scope.postMessage({ type: 'frameEncoded', index });
+  } finally {
+    aRoll?.close();
+    Object.values(clips).forEach(frame => frame.close());
+  }
+};
+
+const finishJob = async () => {
+  if (!job) return;
+  const { videoEncoder, audioEncoder, muxer, format } = job;
+  await Promise.all([videoEncoder.flush(), audioEncoder?.flush()]);
+  if (job.encodeError) throw job.encodeError;
+
+  const buffer = muxer.finalize();
+  const hasAudio = !!audioEncoder;
+  closeJob();
+  scope.postMessage({ type: 'done', buffer, format, hasAudio }, [buffer]);
+};
+
+// Requests are handled strictly in order (frames must not be encoded before the encoders exist);
+// cancel skips the line so queued frames find no job and are just released
+let pending = Promise.resolve();
+
+scope.onmessage = (event) => {
+  const request = event.data;
+  if (request.type === 'cancel') {
+    closeJob();
+    return;
+  }
+
+  pending = pending.then(async () => {
+    switch (request.type) {
+      case 'start': return startJob(request);
+      case 'frame': return encodeFrame(request.index, request.frame, request.clips);
+      case 'finish': return finishJob();
+    }
+  }).catch((e: any) => {
+    closeJob();
+    scope.postMessage({ type: 'error', message: e?.message ?? String(e) });
+  });
+};
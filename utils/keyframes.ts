@@ -0,0 +1,77 @@
+import { Beat, BRollKeyframe } from "../types";
+import { applyEasing, lerp } from "./easing";
+
+// B-roll motion: keyframes at beat-relative times, each easing towards the next. Before the first and
+// after the last keyframe the image holds still, which also covers a beat playing out in a transition.
+
+export interface BRollTransform {
+  x: number; // percentage of the B-roll area
+  y: number;
+  scale: number;
+  rotation: number; // degrees
+}
+
+export const KEN_BURNS_ZOOM = 1.2;
+const KEN_BURNS_PAN = 6; // percent; stays inside the margin the zoom adds
+
+const sortKeyframes = (keyframes: BRollKeyframe[]) => [...keyframes].sort((a, b) => a.time - b.time);
+
+export const getBRollTransform = (beat: Beat, time: number): BRollTransform => {
+  const { x, y, scale } = beat.bRollSettings;
+  if (!beat.keyframes || beat.keyframes.length === 0) return { x, y, scale, rotation: 0 };
+
+  const keyframes = sortKeyframes(beat.keyframes);
+  const local = time - beat.startTime;
+  const first = keyframes[0];
+  const last = keyframes[keyframes.length - 1];
+  if (local <= first.time) return { x: first.x, y: first.y, scale: first.scale, rotation: first.rotation };
+  if (local >= last.time) return { x: last.x, y: last.y, scale: last.scale, rotation: last.rotation };
+
+  const index = keyframes.findIndex(k => k.time > local) - 1;
+  const from = keyframes[index];
+  const to = keyframes[index + 1];
+  const progress = applyEasing(from.easing, (local - from.time) / (to.time - from.time));
+  return {
+    x: lerp(from.x, to.x, progress),
+    y: lerp(from.y, to.y, progress),
+    scale: lerp(from.scale, to.scale, progress),
+    rotation: lerp(from.rotation, to.rotation, progress)
+  };
+};
+
+// Keyframe times stretched or squeezed by `factor`, for a beat whose length changed, so the move still
+// spans the same share of the beat
+export const scaleKeyframes = (keyframes: BRollKeyframe[], factor: number): BRollKeyframe[] =>
+  keyframes.map(keyframe => ({ ...keyframe, time: Math.round(keyframe.time * factor * 10) / 10 }));
+
+// Captures the beat's current look at a beat-relative time, replacing any keyframe already there
+export const addKeyframe = (beat: Beat, localTime: number): BRollKeyframe[] => {
+  const duration = beat.endTime - beat.startTime;
+  const time = Math.round(Math.min(duration, Math.max(0, localTime)) * 10) / 10;
+  const current = getBRollTransform(beat, beat.startTime + time);
+  const keyframe: BRollKeyframe = { time, ...current, easing: 'ease-in-out' };
+  return sortKeyframes([...(beat.keyframes ?? []).filter(k => k.time !== time), keyframe]);
+};
+
+// Slow zoom across the whole beat with a gentle drift. The direction is derived from the beat id,
+// so neighbouring beats tend to move differently but a beat always gets the same move.
+export const createKenBurnsKeyframes = (beat: Beat): BRollKeyframe[] => {
+  const hash = [...beat.id].reduce((sum, char) => (sum * 31 + char.charCodeAt(0)) >>> 0, 7);
+  const dirX = hash & 1 ? 1 : -1;
+  const dirY = hash & 2 ? 1 : -1;
+  const zoomOut = (hash & 4) !== 0;
+  const { x, y, scale } = beat.bRollSettings;
+  const base = Math.max(1, scale);
+
+  const start: BRollKeyframe = { time: 0, x, y, scale: base, rotation: 0, easing: 'linear' };
+  const end: BRollKeyframe = {
+    time: Math.round((beat.endTime - beat.startTime) * 10) / 10,
+    x: x + dirX * KEN_BURNS_PAN,
+    y: y + dirY * KEN_BURNS_PAN / 2,
+    scale: base * KEN_BURNS_ZOOM,
+    rotation: 0,
+    easing: 'linear'
+  };
+  // Zooming out starts tight on the drifted framing and pulls back
+  return zoomOut ? [{ ...end, time: 0 }, { ...start, time: end.time }] : [start, end];
+};
@@ -0,0 +1,89 @@
+import { Beat, BRollOverride, BRollSettings, LayoutMode, OverlayType } from "../types";
+
+// Output aspect ratios. One table drives the export canvas, the preview frame, poster thumbnails and the
+// shape of generated B-roll, so adding a mode here is most of the work.
+
+export const LAYOUT_MODES: { value: LayoutMode; label: string; description: string }[] = [
+  { value: LayoutMode.PORTRAIT, label: '9:16', description: 'Shorts, Reels, TikTok' },
+  { value: LayoutMode.LANDSCAPE, label: '16:9', description: 'YouTube' },
+  { value: LayoutMode.SQUARE, label: '1:1', description: 'Square feed posts' },
+  { value: LayoutMode.FEED, label: '4:5', description: 'Instagram and LinkedIn feed' }
+];
+
+export const LAYOUT_ASPECTS: Record<LayoutMode, { width: number; height: number }> = {
+  [LayoutMode.PORTRAIT]: { width: 9, height: 16 },
+  [LayoutMode.LANDSCAPE]: { width: 16, height: 9 },
+  [LayoutMode.SQUARE]: { width: 1, height: 1 },
+  [LayoutMode.FEED]: { width: 4, height: 5 }
+};
+
+// What the image model can produce (see generateBRollImage)
+const IMAGE_ASPECT_RATIOS = ["1:1", "3:4", "4:3", "9:16", "16:9"];
+
+const toRatio = (aspect: string) => {
+  const [w, h] = aspect.split(":").map(Number);
+  return w / h;
+};
+
+type BRollAreaBeat = Pick<Beat, 'overlayType' | 'bRollSettings' | 'formatOverrides' | 'splitSettings'>;
+
+// A beat's framing in a given layout: its own bRollSettings with that layout's override on top
+export const getBeatSettings = (beat: Pick<Beat, 'bRollSettings' | 'formatOverrides'>, layoutMode: LayoutMode): BRollSettings => {
+  const override = beat.formatOverrides?.[layoutMode];
+  return override ? { ...beat.bRollSettings, ...override } : beat.bRollSettings;
+};
+
+// The beat as drawn in this layout. Keyframes and slides with their own framing are moved by however
+// much the override moves the beat's x/y/scale, so they keep their motion and reframe with the layout
+const applyFormatOverride = (beat: Beat, layoutMode: LayoutMode): Beat => {
+  const settings = getBeatSettings(beat, layoutMode);
+  const dx = settings.x - beat.bRollSettings.x;
+  const dy = settings.y - beat.bRollSettings.y;
+  const zoom = beat.bRollSettings.scale > 0 ? settings.scale / beat.bRollSettings.scale : 1;
+  const reframe = <F extends Pick<BRollSettings, 'x' | 'y' | 'scale'>>(framing: F): F =>
+    ({ ...framing, x: framing.x + dx, y: framing.y + dy, scale: framing.scale * zoom });
+
+  return {
+    ...beat,
+    bRollSettings: settings,
+    keyframes: beat.keyframes?.map(reframe),
+    slideshow: beat.slideshow && {
+      ...beat.slideshow,
+      slides: beat.slideshow.slides.map(slide => slide.bRollSettings ? { ...slide, bRollSettings: reframe(slide.bRollSettings) } : slide)
+    }
+  };
+};
+
+// The beats as the compositor should see them in this layout. Returns the same array when nothing
+// is overridden, so the common case costs nothing per frame
+export const resolveBeatsForLayout = (beats: Beat[], layoutMode: LayoutMode): Beat[] => {
+  if (!beats.some(beat => beat.formatOverrides?.[layoutMode])) return beats;
+  return beats.map(beat => beat.formatOverrides?.[layoutMode] ? applyFormatOverride(beat, layoutMode) : beat);
+};
+
+// Beat update that sets (or with undefined, removes) the override for one layout
+export const setFormatOverride = (beat: Beat, layoutMode: LayoutMode, override: BRollOverride | undefined): Pick<Beat, 'formatOverrides'> => {
+  const { [layoutMode]: _, ...rest } = beat.formatOverrides ?? {};
+  const formatOverrides = override ? { ...rest, [layoutMode]: override } : rest;
+  return { formatOverrides: Object.keys(formatOverrides).length > 0 ? formatOverrides : undefined };
+};
+
+// The shape of the box a beat's B-roll fills: the whole frame, or its side of a split. A 50% stacked split
+// is close to square on 9:16 but a wide banner on 16:9, 1:1 and 4:5, where side by side suits better
+export const getBRollAreaRatio = (layoutMode: LayoutMode, beat?: BRollAreaBeat) => {
+  const { width, height } = LAYOUT_ASPECTS[layoutMode];
+  if (beat?.overlayType !== OverlayType.SPLIT) return width / height;
+  const share = Math.max(0.1, getBeatSettings(beat, layoutMode).height / 100);
+  return beat.splitSettings?.orientation === 'side-by-side'
+    ? (width * share) / height
+    : width / (height * share);
+};
+
+// Closest supported image ratio to the beat's B-roll area (compared in log space, so 2:1 and 1:2 are
+// equally far from 1:1), which keeps the cover crop small
+export const getBRollAspectRatio = (layoutMode: LayoutMode, beat?: BRollAreaBeat) => {
+  const target = Math.log(getBRollAreaRatio(layoutMode, beat));
+  return IMAGE_ASPECT_RATIOS.reduce((best, ratio) =>
+    Math.abs(Math.log(toRatio(ratio)) - target) < Math.abs(Math.log(toRatio(best)) - target) ? ratio : best
+  );
+};
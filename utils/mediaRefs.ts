@@ -0,0 +1,30 @@
+// Helpers for finding and rewriting media URLs inside a JSON-like ProjectState.
+// Persistence and bundle export both need to swap machine-local URLs (blob:) for portable references.
+
+// Deep-maps every string in a JSON-like value, leaving structure intact
+export const mapStrings = <T>(value: T, fn: (s: string) => string): T => {
+  if (typeof value === "string") return fn(value) as unknown as T;
+  if (Array.isArray(value)) return value.map(v => mapStrings(v, fn)) as unknown as T;
+  if (value && typeof value === "object") {
+    const result: Record<string, unknown> = {};
+    for (const [key, v] of Object.entries(value)) {
+      result[key] = mapStrings(v, fn);
+    }
+    return result as T;
+  }
+  return value;
+};
+
+export const collectStrings = (value: unknown, predicate: (s: string) => boolean, out = new Set<string>()): Set<string> => {
+  if (typeof value === "string") {
+    if (predicate(value)) out.add(value);
+  } else if (Array.isArray(value)) {
+    value.forEach(v => collectStrings(v, predicate, out));
+  } else if (value && typeof value === "object") {
+    Object.values(value).forEach(v => collectStrings(v, predicate, out));
+  }
+  return out;
+};
+
+export const isBlobUrl = (s: string) => s.startsWith("blob:");
+export const isDataUrl = (s: string) => /^data:[^;,]+;base64,/.test(s);
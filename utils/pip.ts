@@ -0,0 +1,75 @@
+import { LayoutMode, PipCorner, PipSettings, PipShape } from "../types";
+import { LAYOUT_ASPECTS } from "./layoutModes";
+import { lerp } from "./easing";
+
+// Picture-in-picture geometry. The inset is placed by its centre in frame percentages and sized off the
+// frame's short edge, so the same settings give a similar inset in every layout. Rounded insets are a 3:4
+// portrait crop of the A-roll (a talking head), circles a square one.
+
+export const PIP_CORNERS: { value: PipCorner; label: string }[] = [
+  { value: 'top-left', label: 'Top left' },
+  { value: 'top-right', label: 'Top right' },
+  { value: 'bottom-left', label: 'Bottom left' },
+  { value: 'bottom-right', label: 'Bottom right' }
+];
+
+export const PIP_SHAPES: { value: PipShape; label: string }[] = [
+  { value: 'rounded', label: 'Rounded' },
+  { value: 'circle', label: 'Circle' }
+];
+
+export const PIP_SIZE_LIMITS = { min: 10, max: 60 };
+
+const ROUNDED_ASPECT = 4 / 3; // height / width
+const CORNER_MARGIN = 0.04; // fraction of the short edge
+
+export interface PipRect {
+  x: number; // top-left, pixels
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Inset in pixels for a frame size, kept inside the frame however far the centre was dragged
+export const getPipRect = (settings: PipSettings, frameWidth: number, frameHeight: number): PipRect => {
+  const shortEdge = Math.min(frameWidth, frameHeight);
+  const width = Math.min(frameWidth, shortEdge * settings.size / 100);
+  const height = Math.min(frameHeight, settings.shape === 'circle' ? width : width * ROUNDED_ASPECT);
+  const x = Math.min(frameWidth - width, Math.max(0, frameWidth * settings.x / 100 - width / 2));
+  const y = Math.min(frameHeight - height, Math.max(0, frameHeight * settings.y / 100 - height / 2));
+  return { x, y, width, height };
+};
+
+// Centre that tucks the inset into a corner of this layout, a small margin from both edges
+export const getPipCornerPosition = (corner: PipCorner, settings: Pick<PipSettings, 'size' | 'shape'>, layoutMode: LayoutMode) => {
+  const aspect = LAYOUT_ASPECTS[layoutMode];
+  const shortEdge = Math.min(aspect.width, aspect.height);
+  const width = shortEdge * settings.size / 100;
+  const height = settings.shape === 'circle' ? width : width * ROUNDED_ASPECT;
+  const margin = shortEdge * CORNER_MARGIN;
+  const x = corner.endsWith('left') ? margin + width / 2 : aspect.width - margin - width / 2;
+  const y = corner.startsWith('top') ? margin + height / 2 : aspect.height - margin - height / 2;
+  return { x: Math.round(x / aspect.width * 100), y: Math.round(y / aspect.height * 100) };
+};
+
+export const createPipSettings = (layoutMode: LayoutMode, corner: PipCorner = 'bottom-right'): PipSettings => {
+  const base = { size: 30, shape: 'rounded' as const };
+  return {
+    ...base,
+    ...getPipCornerPosition(corner, base, layoutMode),
+    radius: 12,
+    borderWidth: 1.5,
+    borderColor: '#ffffff',
+    shadow: true
+  };
+};
+
+// Between two inset beats the inset glides to its new place; shape, border and shadow switch halfway
+export const lerpPipSettings = (from: PipSettings, to: PipSettings, t: number): PipSettings => ({
+  ...(t < 0.5 ? from : to),
+  x: lerp(from.x, to.x, t),
+  y: lerp(from.y, to.y, t),
+  size: lerp(from.size, to.size, t),
+  radius: lerp(from.radius, to.radius, t),
+  borderWidth: lerp(from.borderWidth, to.borderWidth, t)
+});
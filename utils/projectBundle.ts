@@ -0,0 +1,152 @@
+import { ProjectState } from "../types";
+import { mapStrings, collectStrings, isBlobUrl, isDataUrl } from "./mediaRefs";
+import { createZip, readZip, ZipEntry } from "./zipArchive";
+import { migrateProjectState } from "./projectSchema";
+
+// Portable project archive (.remixer).
+// A ZIP containing manifest.json, project.json (ProjectState with media swapped for asset references)
+// and every referenced media file under media/. Importing rebuilds blob/data URLs on the new machine.
+
+export const BUNDLE_EXTENSION = ".remixer";
+export const BUNDLE_FORMAT = "remixer-project";
+export const BUNDLE_FORMAT_VERSION = 1;
+
+const MANIFEST_FILE = "manifest.json";
+const PROJECT_FILE = "project.json";
+const ASSET_REF_PREFIX = "bundle-asset:";
+
+export interface BundleAsset {
+  path: string;
+  mimeType: string;
+  size: number;
+  // How the asset was referenced in the state, so import can restore the same kind of URL
+  // (data URLs must stay data URLs because the Gemini calls read them as base64)
+  encoding: "blob" | "data-url";
+}
+
+export interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  formatVersion: number;
+  exportedAt: number;
+  projectFile: string;
+  assets: BundleAsset[];
+  stats: {
+    beats: number;
+    audioClips: number;
+    hasARoll: boolean;
+  };
+}
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "image/gif": "gif",
+  "audio/wav": "wav",
+  "audio/mpeg": "mp3",
+  "video/mp4": "mp4",
+  "video/webm": "webm",
+  "video/quicktime": "mov"
+};
+
+const extensionFor = (mimeType: string) => MIME_EXTENSIONS[mimeType.split(";")[0]] || "bin";
+
+const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+};
+
+export const exportProjectBundle = async (state: ProjectState): Promise<Blob> => {
+  const sources = collectStrings(state, s => isBlobUrl(s) || isDataUrl(s));
+  // Videos generated by older builds live on remote URLs; pull them in so the bundle is self-contained
+  // and the API key in those URLs never reaches project.json
+  const isRemote = (url?: string): url is string => !!url && /^https?:/.test(url);
+  if (isRemote(state.aRollVideoUrl)) {
+    sources.add(state.aRollVideoUrl);
+  }
+  state.beats.forEach(beat => {
+    if (isRemote(beat.bRollClip?.url)) sources.add(beat.bRollClip.url);
+  });
+
+  const sourceToRef = new Map<string, string>();
+  const assets: BundleAsset[] = [];
+  const entries: ZipEntry[] = [];
+
+  let index = 0;
+  for (const source of sources) {
+    let blob: Blob;
+    try {
+      const response = await fetch(source);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      blob = await response.blob();
+    } catch (e: any) {
+      throw new Error(`Could not read media for the bundle (${source.slice(0, 40)}...): ${e.message}`);
+    }
+
+    const mimeType = blob.type || "application/octet-stream";
+    const path = `media/asset-${String(index++).padStart(3, "0")}.${extensionFor(mimeType)}`;
+    assets.push({ path, mimeType, size: blob.size, encoding: isDataUrl(source) ? "data-url" : "blob" });
+    entries.push({ name: path, data: new Uint8Array(await blob.arrayBuffer()) });
+    sourceToRef.set(source, `${ASSET_REF_PREFIX}${path}`);
+  }
+
+  const portableState = mapStrings(state, s => sourceToRef.get(s) ?? s);
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    formatVersion: BUNDLE_FORMAT_VERSION,
+    exportedAt: Date.now(),
+    projectFile: PROJECT_FILE,
+    assets,
+    stats: {
+      beats: state.beats.length,
+      audioClips: state.audioClips.length,
+      hasARoll: !!state.aRollVideoUrl
+    }
+  };
+
+  const encoder = new TextEncoder();
+  return createZip([
+    { name: MANIFEST_FILE, data: encoder.encode(JSON.stringify(manifest, null, 2)) },
+    { name: PROJECT_FILE, data: encoder.encode(JSON.stringify({ ...portableState, isGeneratingVideo: false })) },
+    ...entries
+  ]);
+};
+
+export const importProjectBundle = async (file: Blob): Promise<ProjectState> => {
+  const files = readZip(await file.arrayBuffer());
+  const decoder = new TextDecoder();
+
+  const manifestBytes = files.get(MANIFEST_FILE);
+  if (!manifestBytes) throw new Error("Not a Remixer project bundle (manifest.json missing)");
+
+  const manifest = JSON.parse(decoder.decode(manifestBytes)) as BundleManifest;
+  if (manifest.format !== BUNDLE_FORMAT) {
+    throw new Error(`Unknown bundle format "${manifest.format}"`);
+  }
+  if (manifest.formatVersion > BUNDLE_FORMAT_VERSION) {
+    throw new Error(`This bundle was created by a newer version (format v${manifest.formatVersion}). Please update the app.`);
+  }
+
+  const projectBytes = files.get(manifest.projectFile);
+  if (!projectBytes) throw new Error(`Bundle is missing ${manifest.projectFile}`);
+  // Validate before unpacking media so a malformed project fails fast
+  const portableState = migrateProjectState(JSON.parse(decoder.decode(projectBytes)));
+
+  const refToUrl = new Map<string, string>();
+  for (const asset of manifest.assets) {
+    const bytes = files.get(asset.path);
+    if (!bytes) throw new Error(`Bundle is missing media file ${asset.path}`);
+
+    const blob = new Blob([bytes], { type: asset.mimeType });
+    const url = asset.encoding === "data-url" ? await blobToDataUrl(blob) : URL.createObjectURL(blob);
+    refToUrl.set(`${ASSET_REF_PREFIX}${asset.path}`, url);
+  }
+
+  const state = mapStrings(portableState, s => refToUrl.get(s) ?? s);
+  return { ...state, isGeneratingVideo: false };
+};
@@ -0,0 +1,105 @@
+import { Beat, ProjectState, ScriptBlock } from "../types";
+
+// Structural diff between two project states (typically a snapshot and the current state).
+// Beats and script blocks are matched by id; split/merge create new ids, so they show up as removed + added.
+
+export interface BeatRetime {
+  beat: Beat;
+  from: { startTime: number; endTime: number };
+  to: { startTime: number; endTime: number };
+}
+
+// Any change to what the beat shows (image, clip, slideshow or collage); from/to are its still image
+export interface BeatImageChange {
+  beat: Beat;
+  from?: string;
+  to?: string;
+}
+
+export interface ScriptBlockEdit {
+  id: string;
+  before: string;
+  after: string;
+}
+
+export interface ProjectDiff {
+  beatsAdded: Beat[];
+  beatsRemoved: Beat[];
+  beatsRetimed: BeatRetime[];
+  imagesChanged: BeatImageChange[];
+  scriptBlocksAdded: ScriptBlock[];
+  scriptBlocksRemoved: ScriptBlock[];
+  scriptBlocksEdited: ScriptBlockEdit[];
+  layoutChanged: boolean;
+  aRollChanged: boolean;
+}
+
+// Retiming below this threshold is float noise from split/merge math
+const TIME_EPSILON = 0.01;
+
+// Everything a beat shows as B-roll, as one comparable value: its image, clip, slideshow and collage
+const getBeatVisuals = (beat: Beat) => JSON.stringify([
+  beat.bRollImage ?? null,
+  beat.bRollClip?.url ?? null,
+  beat.slideshow?.slides.map(slide => slide.image) ?? null,
+  beat.collage?.images ?? null
+]);
+
+const stripHtml = (html: string) => html.replace(/<[^>]*>?/gm, '').trim();
+
+export const diffProjects = (from: ProjectState, to: ProjectState): ProjectDiff => {
+  const fromBeats = new Map(from.beats.map(b => [b.id, b]));
+  const toBeats = new Map(to.beats.map(b => [b.id, b]));
+
+  const beatsRetimed: BeatRetime[] = [];
+  const imagesChanged: BeatImageChange[] = [];
+  for (const beat of to.beats) {
+    const previous = fromBeats.get(beat.id);
+    if (!previous) continue;
+    if (Math.abs(previous.startTime - beat.startTime) > TIME_EPSILON || Math.abs(previous.endTime - beat.endTime) > TIME_EPSILON) {
+      beatsRetimed.push({
+        beat,
+        from: { startTime: previous.startTime, endTime: previous.endTime },
+        to: { startTime: beat.startTime, endTime: beat.endTime }
+      });
+    }
+    if (getBeatVisuals(previous) !== getBeatVisuals(beat)) {
+      imagesChanged.push({ beat, from: previous.bRollImage, to: beat.bRollImage });
+    }
+  }
+
+  const fromBlocks = new Map(from.scriptBlocks.map(b => [b.id, b]));
+  const toBlocks = new Map(to.scriptBlocks.map(b => [b.id, b]));
+  const scriptBlocksEdited: ScriptBlockEdit[] = [];
+  for (const block of to.scriptBlocks) {
+    const previous = fromBlocks.get(block.id);
+    if (!previous) continue;
+    const before = stripHtml(previous.content);
+    const after = stripHtml(block.content);
+    if (before !== after) scriptBlocksEdited.push({ id: block.id, before, after });
+  }
+
+  return {
+    beatsAdded: to.beats.filter(b => !fromBeats.has(b.id)),
+    beatsRemoved: from.beats.filter(b => !toBeats.has(b.id)),
+    beatsRetimed,
+    imagesChanged,
+    scriptBlocksAdded: to.scriptBlocks.filter(b => !fromBlocks.has(b.id)),
+    scriptBlocksRemoved: from.scriptBlocks.filter(b => !toBlocks.has(b.id)),
+    scriptBlocksEdited,
+    layoutChanged: from.layoutMode !== to.layoutMode,
+    aRollChanged: from.aRollVideoUrl !== to.aRollVideoUrl
+  };
+};
+
+export const isEmptyDiff = (diff: ProjectDiff): boolean => {
+  return diff.beatsAdded.length === 0 &&
+    diff.beatsRemoved.length === 0 &&
+    diff.beatsRetimed.length === 0 &&
+    diff.imagesChanged.length === 0 &&
+    diff.scriptBlocksAdded.length === 0 &&
+    diff.scriptBlocksRemoved.length === 0 &&
+    diff.scriptBlocksEdited.length === 0 &&
+    !diff.layoutChanged &&
+    !diff.aRollChanged;
+};
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { CURRENT_SCHEMA_VERSION, migrateProjectState } from "./projectSchema";
+import { createExportSettings } from "./exportPresets";
+import { createCaptionSettings } from "./captions";
+import { createBrandKit } from "./brandKit";
+
+// A project as the first release stored it: no schemaVersion, the script as plain text
+const createV0State = () => ({
+  textContent: "First paragraph.\n\nSecond paragraph.\n\n\n",
+  layoutMode: '9:16',
+  styleSettings: { themePrompt: "Cinematic", imageCount: 2 },
+  beats: [
+    {
+      id: "beat-1",
+      startTime: 0,
+      endTime: 4.5,
+      textSegment: "First paragraph.",
+      visualPrompt: "A sunrise",
+      overlayType: 'split',
+      bRollSettings: { x: 0, y: 0, scale: 1, height: 50 }
+    }
+  ]
+});
+
+describe("migrateProjectState", () => {
+  it("upgrades an unversioned project to the current schema", () => {
+    const state = migrateProjectState(createV0State());
+
+    expect(state.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(state.scriptBlocks).toEqual([
+      { id: "block-migrated-0", content: "First paragraph.", align: 'left', type: 'p' },
+      { id: "block-migrated-1", content: "Second paragraph.", align: 'left', type: 'p' }
+    ]);
+    expect(state.beats[0].bRollSettings.aRollOffsetY).toBe(50);
+    expect(state.audioClips).toEqual([]);
+    expect(state.chatSessions).toEqual([]);
+    expect(state.currentChatSessionId).toBeNull();
+    expect(state.exportSettings).toEqual(createExportSettings());
+    expect(state.captionSettings).toEqual(createCaptionSettings());
+    expect(state.textOverlays).toEqual([]);
+    expect(state.styleSettings).toEqual({ themePrompt: "Cinematic", imageCount: 2, brandKit: createBrandKit() });
+  });
+
+  it("keeps settings an intermediate version already had", () => {
+    const v0 = createV0State();
+    const v3 = {
+      ...v0,
+      schemaVersion: 3,
+      scriptBlocks: [{ id: "block-1", content: "Edited", align: 'center', type: 'h1' }],
+      beats: v0.beats.map(beat => ({ ...beat, bRollSettings: { ...beat.bRollSettings, aRollOffsetY: 30 } })),
+      exportSettings: { ...createExportSettings(), format: 'webm', publishFormats: undefined },
+      captionSettings: createCaptionSettings()
+    };
+    const state = migrateProjectState(v3);
+
+    expect(state.scriptBlocks).toEqual(v3.scriptBlocks);
+    expect(state.beats[0].bRollSettings.aRollOffsetY).toBe(30);
+    expect(state.exportSettings).toEqual({ ...createExportSettings(), format: 'webm' });
+  });
+
+  it("leaves a current project unchanged through a save and load", () => {
+    const current = migrateProjectState(createV0State());
+    const reloaded = migrateProjectState(JSON.parse(JSON.stringify(current)));
+
+    expect(reloaded).toEqual(current);
+  });
+
+  it("rejects projects saved by a newer version", () => {
+    expect(() => migrateProjectState({ ...createV0State(), schemaVersion: CURRENT_SCHEMA_VERSION + 1 }))
+      .toThrow(`schema v${CURRENT_SCHEMA_VERSION + 1}`);
+  });
+
+  it("rejects invalid schema versions", () => {
+    expect(() => migrateProjectState({ ...createV0State(), schemaVersion: -1 })).toThrow('Invalid schema version "-1"');
+    expect(() => migrateProjectState({ ...createV0State(), schemaVersion: "2" })).toThrow('Invalid schema version "2"');
+  });
+
+  it("names the beat that fails validation", () => {
+    const raw = createV0State();
+    raw.beats[0].endTime = -1;
+
+    expect(() => migrateProjectState(raw)).toThrow('Beat 1 ("First paragraph.") has a negative duration');
+  });
+
+  it("rejects data that is not a project", () => {
+    expect(() => migrateProjectState(null)).toThrow("Project data is not an object");
+    expect(() => migrateProjectState({ ...createV0State(), layoutMode: '2:1' })).toThrow('Unknown layoutMode "2:1"');
+  });
+});
@@ -0,0 +1,326 @@
+import { Beat, LayoutMode, OverlayType, ProjectState } from "../types";
+import { createExportSettings } from "./exportPresets";
+import { createCaptionSettings } from "./captions";
+import { TRANSITION_TYPES } from "./transitions";
+import { EASING_TYPES } from "./easing";
+import { PIP_CORNERS, PIP_SHAPES } from "./pip";
+import { SPLIT_ORDERS, SPLIT_ORIENTATIONS } from "./splitLayout";
+import { TEXT_ANIMATIONS, TEXT_OVERLAY_KINDS } from "./textOverlays";
+import { createBrandKit } from "./brandKit";
+import { CLIP_END_BEHAVIORS } from "./brollClips";
+import { COLLAGE_LAYOUTS } from "./collage";
+
+// Versioned shape of ProjectState as it is saved to IndexedDB and .remixer bundles.
+// Anything read back from storage goes through migrateProjectState, which upgrades older shapes
+// one version at a time and then validates the result, so the editor never sees a malformed project.
+
+// v0: unversioned projects (deprecated `textContent` may be the only script, `aRollOffsetY` may be missing)
+// v1: `schemaVersion` added, script lives in `scriptBlocks`, every beat has `aRollOffsetY`
+// v2: `exportSettings` (preset, custom values, container format) saved with the project
+// v3: `captionSettings` for burned-in captions
+// v4: `exportSettings.publishFormats`, the layouts a publish pack renders
+// v5: `textOverlays` (title cards, lower thirds, end cards, stat callouts)
+// v6: `styleSettings.brandKit` (logo, colours and fonts applied project-wide)
+export const CURRENT_SCHEMA_VERSION = 6;
+
+const DEFAULT_A_ROLL_OFFSET_Y = 50;
+
+type RawState = Record<string, any>;
+
+// migrations[n] upgrades a version n state to version n + 1
+const migrations: ((state: RawState) => RawState)[] = [
+  // v0 -> v1
+  (state) => {
+    const textContent = typeof state.textContent === "string" ? state.textContent : "";
+    const scriptBlocks = Array.isArray(state.scriptBlocks) && state.scriptBlocks.length > 0
+      ? state.scriptBlocks
+      : textContent.split(/\n{2,}/).filter(p => p.trim()).map((p, i) => ({
+          id: `block-migrated-${i}`,
+          content: p.trim(),
+          align: 'left',
+          type: 'p'
+        }));
+
+    return {
+      ...state,
+      textContent,
+      scriptBlocks: scriptBlocks.length > 0 ? scriptBlocks : [{ id: 'block-migrated-0', content: "", align: 'left', type: 'p' }],
+      videoTranscript: state.videoTranscript ?? "",
+      audioClips: state.audioClips ?? [],
+      selectedAudioIds: state.selectedAudioIds ?? [],
+      videoComments: state.videoComments ?? [],
+      chatSessions: state.chatSessions ?? [],
+      currentChatSessionId: state.currentChatSessionId ?? null,
+      beats: Array.isArray(state.beats) ? state.beats.map((beat: RawState) => (
+        beat?.bRollSettings
+          ? { ...beat, bRollSettings: { ...beat.bRollSettings, aRollOffsetY: beat.bRollSettings.aRollOffsetY ?? DEFAULT_A_ROLL_OFFSET_Y } }
+          : beat
+      )) : state.beats
+    };
+  },
+  // v1 -> v2
+  (state) => ({
+    ...state,
+    exportSettings: state.exportSettings ?? createExportSettings()
+  }),
+  // v2 -> v3
+  (state) => ({
+    ...state,
+    captionSettings: state.captionSettings ?? createCaptionSettings()
+  }),
+  // v3 -> v4
+  (state) => ({
+    ...state,
+    exportSettings: state.exportSettings && {
+      ...state.exportSettings,
+      publishFormats: state.exportSettings.publishFormats ?? createExportSettings().publishFormats
+    }
+  }),
+  // v4 -> v5
+  (state) => ({
+    ...state,
+    textOverlays: state.textOverlays ?? []
+  }),
+  // v5 -> v6
+  (state) => ({
+    ...state,
+    styleSettings: state.styleSettings && {
+      ...state.styleSettings,
+      brandKit: state.styleSettings.brandKit ?? createBrandKit()
+    }
+  })
+];
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+const describeBeat = (beat: any, index: number) => {
+  const text = typeof beat?.textSegment === "string" ? beat.textSegment.trim() : "";
+  return text ? `Beat ${index + 1} ("${text.length > 32 ? `${text.slice(0, 32)}…` : text}")` : `Beat ${index + 1}`;
+};
+
+const validateBeat = (beat: any, index: number): Beat => {
+  const name = describeBeat(beat, index);
+  if (!beat || typeof beat !== "object") throw new Error(`${name} is not an object`);
+  if (typeof beat.id !== "string" || !beat.id) throw new Error(`${name} is missing an id`);
+  if (!isFiniteNumber(beat.startTime) || !isFiniteNumber(beat.endTime)) {
+    throw new Error(`${name} has invalid timing (start ${beat.startTime}, end ${beat.endTime})`);
+  }
+  if (beat.startTime < 0) throw new Error(`${name} starts before 0s (${beat.startTime}s)`);
+  if (beat.endTime < beat.startTime) {
+    throw new Error(`${name} has a negative duration (starts at ${beat.startTime}s, ends at ${beat.endTime}s)`);
+  }
+  if (!Object.values(OverlayType).includes(beat.overlayType)) {
+    throw new Error(`${name} has unknown overlayType "${beat.overlayType}" (expected ${Object.values(OverlayType).join(" or ")})`);
+  }
+
+  const settings = beat.bRollSettings;
+  if (!settings || typeof settings !== "object") throw new Error(`${name} is missing bRollSettings`);
+  for (const key of ["x", "y", "scale", "height", "aRollOffsetY"] as const) {
+    if (!isFiniteNumber(settings[key])) throw new Error(`${name} has invalid bRollSettings.${key} (${settings[key]})`);
+  }
+  if (settings.scale <= 0) throw new Error(`${name} has a non-positive bRollSettings.scale (${settings.scale})`);
+
+  // Optional: beats without keyframes hold their static position
+  if (beat.keyframes !== undefined) {
+    if (!Array.isArray(beat.keyframes)) throw new Error(`${name} has invalid keyframes`);
+    beat.keyframes.forEach((keyframe: any, i: number) => {
+      if (!keyframe || typeof keyframe !== "object") throw new Error(`${name} keyframe ${i + 1} is not an object`);
+      for (const key of ["time", "x", "y", "scale", "rotation"] as const) {
+        if (!isFiniteNumber(keyframe[key])) throw new Error(`${name} keyframe ${i + 1} has invalid ${key} (${keyframe[key]})`);
+      }
+      if (keyframe.time < 0) throw new Error(`${name} keyframe ${i + 1} is before the beat starts (${keyframe.time}s)`);
+      if (keyframe.scale <= 0) throw new Error(`${name} keyframe ${i + 1} has a non-positive scale (${keyframe.scale})`);
+      if (!EASING_TYPES.some(e => e.value === keyframe.easing)) throw new Error(`${name} keyframe ${i + 1} has unknown easing "${keyframe.easing}"`);
+    });
+  }
+
+  // Optional: splits without one stack the B-roll on top
+  const split = beat.splitSettings;
+  if (split !== undefined) {
+    if (!split || typeof split !== "object") throw new Error(`${name} has invalid splitSettings`);
+    if (!SPLIT_ORIENTATIONS.some(o => o.value === split.orientation)) throw new Error(`${name} has unknown split orientation "${split.orientation}"`);
+    if (!SPLIT_ORDERS.some(o => o.value === split.order)) throw new Error(`${name} has unknown split order "${split.order}"`);
+    if (!isFiniteNumber(split.gutterWidth) || split.gutterWidth < 0) throw new Error(`${name} has an invalid gutter width (${split.gutterWidth})`);
+    if (split.gutterColor !== undefined && typeof split.gutterColor !== "string") throw new Error(`${name} has an invalid gutter colour`);
+  }
+
+  // Optional: PIP beats get defaults when first switched to the inset
+  const pip = beat.pipSettings;
+  if (pip !== undefined) {
+    if (!pip || typeof pip !== "object") throw new Error(`${name} has invalid pipSettings`);
+    for (const key of ["x", "y", "size", "radius", "borderWidth"] as const) {
+      if (!isFiniteNumber(pip[key])) throw new Error(`${name} has invalid pipSettings.${key} (${pip[key]})`);
+    }
+    if (pip.size <= 0) throw new Error(`${name} has a non-positive pipSettings.size (${pip.size})`);
+    if (!PIP_SHAPES.some(s => s.value === pip.shape)) throw new Error(`${name} has unknown pipSettings.shape "${pip.shape}"`);
+    if (typeof pip.borderColor !== "string") throw new Error(`${name} has invalid pipSettings.borderColor`);
+    if (typeof pip.shadow !== "boolean") throw new Error(`${name} has invalid pipSettings.shadow`);
+  }
+
+  // Optional: beats without a clip use their image
+  const clip = beat.bRollClip;
+  if (clip !== undefined) {
+    if (!clip || typeof clip !== "object") throw new Error(`${name} has an invalid bRollClip`);
+    if (typeof clip.url !== "string" || !clip.url) throw new Error(`${name} has a clip without a url`);
+    for (const key of ["duration", "trimStart", "trimEnd", "volume"] as const) {
+      if (!isFiniteNumber(clip[key])) throw new Error(`${name} has invalid bRollClip.${key} (${clip[key]})`);
+    }
+    if (clip.trimStart < 0 || clip.trimEnd <= clip.trimStart) {
+      throw new Error(`${name} has an invalid clip trim (${clip.trimStart}s to ${clip.trimEnd}s)`);
+    }
+    if (!CLIP_END_BEHAVIORS.some(b => b.value === clip.endBehavior)) throw new Error(`${name} has unknown clip endBehavior "${clip.endBehavior}"`);
+    if (typeof clip.muted !== "boolean") throw new Error(`${name} has invalid bRollClip.muted`);
+  }
+
+  // Optional: beats without one show a single image (or clip)
+  const slideshow = beat.slideshow;
+  if (slideshow !== undefined) {
+    if (!slideshow || typeof slideshow !== "object" || !Array.isArray(slideshow.slides)) throw new Error(`${name} has an invalid slideshow`);
+    slideshow.slides.forEach((slide: any, i: number) => {
+      if (!slide || typeof slide !== "object" || typeof slide.image !== "string" || !slide.image) {
+        throw new Error(`${name} slide ${i + 1} has no image`);
+      }
+      if (slide.duration !== undefined && (!isFiniteNumber(slide.duration) || slide.duration <= 0)) {
+        throw new Error(`${name} slide ${i + 1} has an invalid duration (${slide.duration})`);
+      }
+      if (slide.bRollSettings !== undefined) {
+        for (const key of ["x", "y", "scale"] as const) {
+          if (!isFiniteNumber(slide.bRollSettings?.[key])) throw new Error(`${name} slide ${i + 1} has invalid bRollSettings.${key}`);
+        }
+        if (slide.bRollSettings.scale <= 0) throw new Error(`${name} slide ${i + 1} has a non-positive scale (${slide.bRollSettings.scale})`);
+      }
+    });
+    const transition = slideshow.transition;
+    if (transition !== undefined) {
+      if (!transition || !TRANSITION_TYPES.some(t => t.value === transition.type) || !EASING_TYPES.some(e => e.value === transition.easing)
+        || !isFiniteNumber(transition.duration) || transition.duration < 0) {
+        throw new Error(`${name} has an invalid slideshow transition`);
+      }
+    }
+  }
+
+  // Optional: beats without one show their image, clip or slideshow
+  const collage = beat.collage;
+  if (collage !== undefined) {
+    if (!collage || typeof collage !== "object" || !Array.isArray(collage.images)) throw new Error(`${name} has an invalid collage`);
+    if (!COLLAGE_LAYOUTS.some(l => l.value === collage.layout)) throw new Error(`${name} has unknown collage layout "${collage.layout}"`);
+    collage.images.forEach((image: any, i: number) => {
+      if (typeof image !== "string" || !image) throw new Error(`${name} collage cell ${i + 1} has no image`);
+    });
+    for (const key of ["gutter", "radius"] as const) {
+      if (!isFiniteNumber(collage[key]) || collage[key] < 0) throw new Error(`${name} has invalid collage.${key} (${collage[key]})`);
+    }
+    if (typeof collage.backgroundColor !== "string") throw new Error(`${name} has an invalid collage background colour`);
+  }
+
+  // Optional: only layouts that were reframed have an entry
+  const overrides = beat.formatOverrides;
+  if (overrides !== undefined) {
+    if (!overrides || typeof overrides !== "object") throw new Error(`${name} has invalid formatOverrides`);
+    for (const [layout, override] of Object.entries(overrides) as [string, any][]) {
+      if (!Object.values(LayoutMode).includes(layout as LayoutMode)) throw new Error(`${name} has an override for unknown layout "${layout}"`);
+      if (!override || typeof override !== "object") throw new Error(`${name} has an invalid ${layout} override`);
+      for (const key of ["x", "y", "scale", "height", "aRollOffsetY"] as const) {
+        if (override[key] !== undefined && !isFiniteNumber(override[key])) {
+          throw new Error(`${name} has invalid ${layout} override ${key} (${override[key]})`);
+        }
+      }
+      if (override.scale !== undefined && override.scale <= 0) throw new Error(`${name} has a non-positive ${layout} override scale (${override.scale})`);
+    }
+  }
+
+  // Optional: beats without one hard-cut
+  const transition = beat.transition;
+  if (transition !== undefined) {
+    if (!transition || typeof transition !== "object") throw new Error(`${name} has an invalid transition`);
+    if (!TRANSITION_TYPES.some(t => t.value === transition.type)) throw new Error(`${name} has unknown transition type "${transition.type}"`);
+    if (!EASING_TYPES.some(e => e.value === transition.easing)) throw new Error(`${name} has unknown transition easing "${transition.easing}"`);
+    if (!isFiniteNumber(transition.duration) || transition.duration < 0) {
+      throw new Error(`${name} has an invalid transition duration (${transition.duration})`);
+    }
+  }
+
+  return beat as Beat;
+};
+
+const validateTextOverlay = (overlay: any, index: number) => {
+  const name = `Text overlay ${index + 1}`;
+  if (!overlay || typeof overlay !== "object") throw new Error(`${name} is not an object`);
+  if (typeof overlay.id !== "string" || !overlay.id) throw new Error(`${name} is missing an id`);
+  if (!TEXT_OVERLAY_KINDS.some(k => k.value === overlay.kind)) throw new Error(`${name} has unknown kind "${overlay.kind}"`);
+  if (!TEXT_ANIMATIONS.some(a => a.value === overlay.animation)) throw new Error(`${name} has unknown animation "${overlay.animation}"`);
+  for (const key of ["text", "subtext", "fontFamily", "textColor", "accentColor"] as const) {
+    if (typeof overlay[key] !== "string") throw new Error(`${name} has invalid ${key}`);
+  }
+  if (overlay.beatId !== null && typeof overlay.beatId !== "string") throw new Error(`${name} has an invalid beatId`);
+  for (const key of ["startTime", "endTime", "x", "y", "fontSize"] as const) {
+    if (!isFiniteNumber(overlay[key])) throw new Error(`${name} has invalid ${key} (${overlay[key]})`);
+  }
+  if (overlay.startTime < 0 || overlay.endTime < overlay.startTime) {
+    throw new Error(`${name} has invalid timing (start ${overlay.startTime}, end ${overlay.endTime})`);
+  }
+  if (overlay.fontSize <= 0) throw new Error(`${name} has a non-positive fontSize (${overlay.fontSize})`);
+};
+
+const validateBrandKit = (brandKit: any) => {
+  if (!brandKit || typeof brandKit !== "object") throw new Error("Project is missing styleSettings.brandKit");
+  if (typeof brandKit.enabled !== "boolean") throw new Error("Brand kit has invalid enabled flag");
+  if (brandKit.logo !== undefined && typeof brandKit.logo !== "string") throw new Error("Brand kit has an invalid logo");
+  if (!PIP_CORNERS.some(c => c.value === brandKit.logoPosition)) {
+    throw new Error(`Brand kit has unknown logoPosition "${brandKit.logoPosition}"`);
+  }
+  for (const key of ["primaryColor", "secondaryColor", "headingFont", "bodyFont"] as const) {
+    if (typeof brandKit[key] !== "string") throw new Error(`Brand kit has invalid ${key}`);
+  }
+  if (!isFiniteNumber(brandKit.logoSize) || brandKit.logoSize <= 0) throw new Error(`Brand kit has invalid logoSize (${brandKit.logoSize})`);
+  if (!isFiniteNumber(brandKit.logoOpacity) || brandKit.logoOpacity < 0 || brandKit.logoOpacity > 1) {
+    throw new Error(`Brand kit has invalid logoOpacity (${brandKit.logoOpacity})`);
+  }
+};
+
+// Throws with a message naming the offending field; the result is safe to hand to the editor
+export const validateProjectState = (state: RawState): ProjectState => {
+  if (!state || typeof state !== "object") throw new Error("Project data is not an object");
+  if (state.schemaVersion !== CURRENT_SCHEMA_VERSION) {
+    throw new Error(`Unexpected schema version ${state.schemaVersion} (expected ${CURRENT_SCHEMA_VERSION})`);
+  }
+  if (!Object.values(LayoutMode).includes(state.layoutMode)) {
+    throw new Error(`Unknown layoutMode "${state.layoutMode}"`);
+  }
+  if (!Array.isArray(state.beats)) throw new Error("Project has no beats list");
+  if (!Array.isArray(state.scriptBlocks)) throw new Error("Project has no script blocks");
+  if (!state.styleSettings || typeof state.styleSettings !== "object") throw new Error("Project is missing styleSettings");
+  validateBrandKit(state.styleSettings.brandKit);
+  if (!state.exportSettings || typeof state.exportSettings !== "object") throw new Error("Project is missing exportSettings");
+  const publishFormats = state.exportSettings.publishFormats;
+  if (!Array.isArray(publishFormats) || publishFormats.some((f: unknown) => !Object.values(LayoutMode).includes(f as LayoutMode))) {
+    throw new Error(`Project has invalid exportSettings.publishFormats (${JSON.stringify(publishFormats)})`);
+  }
+  if (!state.captionSettings || typeof state.captionSettings !== "object") throw new Error("Project is missing captionSettings");
+
+  if (!Array.isArray(state.textOverlays)) throw new Error("Project has no text overlays list");
+
+  state.beats.forEach(validateBeat);
+  state.textOverlays.forEach(validateTextOverlay);
+  return state as ProjectState;
+};
+
+// Upgrades a stored or imported state of any known version to the current schema, then validates it
+export const migrateProjectState = (raw: unknown): ProjectState => {
+  if (!raw || typeof raw !== "object") throw new Error("Project data is not an object");
+
+  let state = raw as RawState;
+  const version = state.schemaVersion ?? 0;
+  if (!Number.isInteger(version) || version < 0) {
+    throw new Error(`Invalid schema version "${state.schemaVersion}"`);
+  }
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`This project was saved by a newer version (schema v${version}). Please update the app.`);
+  }
+
+  for (let v = version; v < CURRENT_SCHEMA_VERSION; v++) {
+    state = { ...migrations[v](state), schemaVersion: v + 1 };
+  }
+
+  return validateProjectState(state);
+};
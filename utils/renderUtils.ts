@@ -1,263 +1,359 @@
-import { Beat, LayoutMode, OverlayType } from "../types";
+import { Beat, ExportFormat, TimeRange } from "../types";
+import { getOutputSize } from "./exportPresets";
+import { CompositorScene, loadSceneImages } from "./compositor";
+import { getClipTime, getVisibleClipBeats, playsClip } from "./brollClips";
+import type { DecodedAudio, ExportWorkerRequest, ExportWorkerResponse } from "./exportWorker";
 
-export async function renderVideoToBlob(
-  sourceUrl: string,
-  beats: Beat[],
-  layoutMode: LayoutMode,
-  onProgress: (progress: number) => void
-): Promise<Blob> {
-  return new Promise(async (resolve, reject) => {
-    // 1. Setup Off-screen Video
-    const video = document.createElement("video");
-    video.src = sourceUrl;
-    video.crossOrigin = "anonymous";
-    video.muted = false; // Must be unmuted to capture audio via context
-    video.playsInline = true;
-    
+// Offline export: the A-roll and any B-roll clips on screen are seeked frame by frame at a fixed FPS and
+// their frames are handed to the export worker, which draws them with the shared compositor (the same one
+// behind the preview) and encodes the result with WebCodecs; the audio track, with unmuted clips mixed in,
+// is decoded once and encoded alongside it.
+// Nothing depends on playback timing, so the same project always produces the same frames, and since only
+// seeking happens here the editor stays responsive while an export runs.
+
+export interface RenderOptions {
+  format?: ExportFormat;
+  resolution?: number; // short edge in pixels
+  fps?: number;
+  videoBitrate?: number; // bits per second
+  audioBitrate?: number;
+  range?: TimeRange; // Part of the A-roll to export; the whole video when unset
+}
+
+export interface RenderProgress {
+  progress: number; // 0 to 1
+  frame: number; // frames encoded so far
+  totalFrames: number;
+  etaSeconds: number | null; // null until there's enough to estimate from
+}
+
+export interface RenderResult {
+  blob: Blob;
+  format: ExportFormat; // May differ from the requested one when the browser lacks an encoder
+  hasAudio: boolean;
+}
+
+export interface CodecChoice {
+  codec: string; // WebCodecs codec string
+  muxerCodec: string; // Container codec id
+}
+
+interface FormatProfile {
+  label: string;
+  mimeType: string;
+  extension: string;
+  videoCodecs: CodecChoice[]; // In order of preference
+  audioCodecs: CodecChoice[];
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, FormatProfile> = {
+  mp4: {
+    label: "MP4 (H.264 / AAC)",
+    mimeType: "video/mp4",
+    extension: "mp4",
+    videoCodecs: [
+      { codec: "avc1.640033", muxerCodec: "avc" }, // High@5.1
+      { codec: "avc1.640034", muxerCodec: "avc" }, // High@5.2 (4K60)
+      { codec: "avc1.4d0033", muxerCodec: "avc" }, // Main@5.1
+      { codec: "avc1.42003e", muxerCodec: "avc" } // Constrained Baseline@6.2
+    ],
+    audioCodecs: [
+      { codec: "mp4a.40.2", muxerCodec: "aac" }, // AAC-LC
+      { codec: "opus", muxerCodec: "opus" } // Browsers without an AAC encoder
+    ]
+  },
+  webm: {
+    label: "WebM (VP9 / Opus)",
+    mimeType: "video/webm",
+    extension: "webm",
+    videoCodecs: [
+      { codec: "vp09.00.40.08", muxerCodec: "V_VP9" },
+      { codec: "vp8", muxerCodec: "V_VP8" }
+    ],
+    audioCodecs: [
+      { codec: "opus", muxerCodec: "A_OPUS" }
+    ]
+  }
+};
+
+const DEFAULT_FORMAT: ExportFormat = 'mp4';
+const DEFAULT_RESOLUTION = 1080;
+const DEFAULT_FPS = 30;
+const DEFAULT_VIDEO_BITRATE = 8_000_000; // 8 Mbps high quality
+const DEFAULT_AUDIO_BITRATE = 128_000;
+const AUDIO_SAMPLE_RATE = 48000; // Opus only runs at 48 kHz
+const MAX_FRAMES_IN_FLIGHT = 4; // Captured but not yet encoded; each holds a decoded video frame
+const ETA_MIN_FRAMES = 10;
+
+export const isRenderCancelled = (e: unknown) => e instanceof DOMException && e.name === "AbortError";
+
+export const formatEta = (seconds: number) => {
+  const total = Math.max(0, Math.ceil(seconds));
+  return `${Math.floor(total / 60)}:${(total % 60).toString().padStart(2, '0')}`;
+};
+
+// "0:03–0:09", for labelling partial exports
+export const formatRange = (range: TimeRange) => {
+  const format = (seconds: number) => `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+  return `${format(range.start)}–${format(range.end)}`;
+};
+
+const cancelledError = () => new DOMException("Export cancelled", "AbortError");
+
+const waitForEvent = (target: EventTarget, event: string) => new Promise<void>((resolve) => {
+  target.addEventListener(event, () => resolve(), { once: true });
+});
+
+const loadVideo = async (sourceUrl: string): Promise<HTMLVideoElement> => {
+  const video = document.createElement("video");
+  video.crossOrigin = "anonymous";
+  video.muted = true; // Audio comes from the decoded track, not playback
+  video.playsInline = true;
+  video.preload = "auto";
+
+  await new Promise<void>((resolve, reject) => {
+    video.onloadeddata = () => resolve();
     video.onerror = () => reject(new Error("Video error during export"));
+    video.src = sourceUrl;
+    video.load();
+  });
+  video.onerror = null;
+  return video;
+};
+
+const seekVideo = async (video: HTMLVideoElement, time: number) => {
+  if (Math.abs(video.currentTime - time) < 1e-6 && video.readyState >= 2) return;
+  const seeked = waitForEvent(video, "seeked");
+  video.currentTime = time;
+  await seeked;
+};
+
+// Resampled to the encoder rate, trimmed to the range and copied out so it can be transferred to the worker;
+// null when the source has no decodable audio track
+const decodeAudioTrack = async (sourceUrl: string, range: TimeRange, audioContext: AudioContext): Promise<DecodedAudio | null> => {
+  try {
+    const response = await fetch(sourceUrl);
+    const buffer = await audioContext.decodeAudioData(await response.arrayBuffer());
+    const from = Math.min(buffer.length, Math.round(range.start * buffer.sampleRate));
+    const to = Math.min(buffer.length, Math.round(range.end * buffer.sampleRate));
+    const channels = Array.from({ length: Math.min(2, buffer.numberOfChannels) }, (_, c) => buffer.getChannelData(c).slice(from, to));
+    return { sampleRate: buffer.sampleRate, channels };
+  } catch (e) {
+    console.warn("Export continues without audio:", e);
+    return null;
+  }
+};
 
-    await new Promise((r) => {
-        video.onloadedmetadata = r;
-        video.load();
-    });
-
-    // 2. Setup Canvas
-    const canvas = document.createElement("canvas");
-    const width = layoutMode === LayoutMode.PORTRAIT ? 1080 : 1920;
-    const height = layoutMode === LayoutMode.PORTRAIT ? 1920 : 1080;
-    canvas.width = width;
-    canvas.height = height;
-    
-    const ctx = canvas.getContext("2d");
-    if (!ctx) {
-      reject(new Error("Could not get canvas context"));
-      return;
+// Unmuted B-roll clips mixed over the A-roll track (or silence, when the A-roll has none) at their volume,
+// looping or holding as their video does. A clip whose audio can't be decoded is skipped
+const mixClipAudio = async (audio: DecodedAudio | null, beats: Beat[], range: TimeRange, audioContext: AudioContext): Promise<DecodedAudio | null> => {
+  const audible = beats.filter(beat => beat.isEnabled && playsClip(beat) && !beat.bRollClip.muted && beat.bRollClip.volume > 0
+    && beat.startTime < range.end && beat.endTime > range.start);
+  if (audible.length === 0) return audio;
+
+  const decoded = new Map<string, AudioBuffer | null>();
+  for (const beat of audible) {
+    const url = beat.bRollClip!.url;
+    if (decoded.has(url)) continue;
+    try {
+      const response = await fetch(url);
+      decoded.set(url, await audioContext.decodeAudioData(await response.arrayBuffer()));
+    } catch (e) {
+      console.warn("Export continues without a clip's audio:", e);
+      decoded.set(url, null);
     }
+  }
+
+  const sampleRate = audio?.sampleRate ?? audioContext.sampleRate;
+  const length = Math.round((range.end - range.start) * sampleRate);
+  const channels = audio?.channels ?? [new Float32Array(length), new Float32Array(length)];
+
+  for (const beat of audible) {
+    const clip = beat.bRollClip!;
+    const buffer = decoded.get(clip.url);
+    if (!buffer) continue;
+    const clipChannels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+    const from = Math.max(0, Math.round((beat.startTime - range.start) * sampleRate));
+    const to = Math.min(length, Math.round((beat.endTime - range.start) * sampleRate));
 
-    // 3. Setup Audio Graph (Capture video audio -> Destination)
-    const CtxClass = window.AudioContext || (window as any).webkitAudioContext;
-    const audioCtx = new CtxClass();
-    const source = audioCtx.createMediaElementSource(video);
-    const dest = audioCtx.createMediaStreamDestination();
-    source.connect(dest);
-
-    // 4. Setup MediaRecorder
-    const canvasStream = canvas.captureStream(30); // Capture at 30 FPS
-    const audioTrack = dest.stream.getAudioTracks()[0];
-    if (audioTrack) {
-      canvasStream.addTrack(audioTrack);
+    for (let i = from; i < to; i++) {
+      const local = range.start + i / sampleRate - beat.startTime;
+      const source = Math.round(getClipTime(clip, local) * buffer.sampleRate);
+      if (source >= buffer.length) continue;
+      channels.forEach((channel, c) => {
+        const mixed = channel[i] + clipChannels[Math.min(c, clipChannels.length - 1)][source] * clip.volume;
+        channel[i] = Math.max(-1, Math.min(1, mixed));
+      });
     }
+  }
+  return { sampleRate, channels };
+};
 
-    const mediaRecorder = new MediaRecorder(canvasStream, {
-      mimeType: 'video/webm;codecs=vp9,opus',
-      videoBitsPerSecond: 8000000 // 8 Mbps high quality
-    });
+// One player per beat with a clip, since two beats may show the same clip at different times
+const loadClipVideos = async (beats: Beat[]): Promise<Map<string, HTMLVideoElement>> => {
+  const clipBeats = beats.filter(beat => beat.isEnabled && playsClip(beat));
+  const videos = await Promise.all(clipBeats.map(beat => loadVideo(beat.bRollClip!.url).catch(() => null)));
+  const players = new Map<string, HTMLVideoElement>();
+  clipBeats.forEach((beat, i) => {
+    const video = videos[i];
+    if (video) players.set(beat.id, video);
+  });
+  return players;
+};
 
-    const chunks: Blob[] = [];
-    mediaRecorder.ondataavailable = (e) => {
-      if (e.data.size > 0) chunks.push(e.data);
-    };
+const loadImageBitmaps = async (scene: CompositorScene): Promise<Record<string, ImageBitmap>> => {
+  const sources = await loadSceneImages(scene);
+  const entries = await Promise.all(Object.entries(sources).map(async ([url, source]) =>
+    [url, await createImageBitmap(source.image as HTMLImageElement)] as const
+  ));
+  return Object.fromEntries(entries);
+};
 
-    mediaRecorder.onstop = () => {
-      const blob = new Blob(chunks, { type: 'video/webm' });
-      
-      // Cleanup
-      source.disconnect();
-      if(audioCtx.state !== 'closed') audioCtx.close();
-      video.remove();
-      canvas.remove();
-      
-      resolve(blob);
-    };
+export async function renderVideoToBlob(
+  sourceUrl: string,
+  scene: CompositorScene,
+  onProgress: (progress: RenderProgress) => void,
+  options: RenderOptions = {},
+  signal?: AbortSignal
+): Promise<RenderResult> {
+  const {
+    format: requestedFormat = DEFAULT_FORMAT,
+    resolution = DEFAULT_RESOLUTION,
+    fps = DEFAULT_FPS,
+    videoBitrate = DEFAULT_VIDEO_BITRATE,
+    audioBitrate = DEFAULT_AUDIO_BITRATE
+  } = options;
 
-    // Explicitly handle video end to prevent getting stuck at 99%
-    // requestVideoFrameCallback stops firing when video ends, so we need this event.
-    video.onended = () => {
-        if (mediaRecorder.state !== 'inactive') {
-            mediaRecorder.stop();
-            onProgress(1);
-        }
-    };
+  if (typeof VideoEncoder === "undefined" || typeof AudioEncoder === "undefined" || typeof OffscreenCanvas === "undefined") {
+    throw new Error("This browser doesn't support WebCodecs. Please export from a recent Chrome or Edge.");
+  }
+  if (signal?.aborted) throw cancelledError();
 
-    // 5. Pre-load B-Roll Images
-    const imageCache: Record<string, HTMLImageElement> = {};
-    const uniqueImages = Array.from(new Set(beats.map(b => b.bRollImage).filter(Boolean) as string[]));
-    
-    await Promise.all(uniqueImages.map(url => new Promise((res) => {
-        const img = new Image();
-        img.crossOrigin = "anonymous";
-        img.onload = res;
-        img.onerror = res;
-        img.src = url;
-        imageCache[url] = img;
-    })));
-
-    // Helpers for drawing
-    const drawContain = (
-        src: HTMLVideoElement,
-        targetX: number, targetY: number, targetW: number, targetH: number
-    ) => {
-        const videoRatio = src.videoWidth / src.videoHeight;
-        const targetRatio = targetW / targetH;
-        let dW, dH, dX, dY;
-        
-        if (videoRatio > targetRatio) {
-            dW = targetW;
-            dH = targetW / videoRatio;
-            dX = targetX;
-            dY = targetY + (targetH - dH) / 2;
-        } else {
-            dH = targetH;
-            dW = targetH * videoRatio;
-            dY = targetY;
-            dX = targetX + (targetW - dW) / 2;
-        }
-        ctx.drawImage(src, 0, 0, src.videoWidth, src.videoHeight, dX, dY, dW, dH);
-    };
+  const { width, height } = getOutputSize(scene.layoutMode, resolution);
 
-    // 6. Render Loop
-    mediaRecorder.start();
-    
-    try {
-        await video.play();
-    } catch (e: any) {
-        reject(new Error("Export playback failed: " + e.message));
-        return;
+  const worker = new Worker(new URL("./exportWorker.ts", import.meta.url), { type: "module" });
+  const audioContext = new AudioContext({ sampleRate: AUDIO_SAMPLE_RATE });
+  let video: HTMLVideoElement | null = null;
+  let clipVideos = new Map<string, HTMLVideoElement>();
+
+  // Worker replies only update this state; the render loop below waits on it
+  let ready: Extract<ExportWorkerResponse, { type: 'ready' }> | null = null;
+  let done: Extract<ExportWorkerResponse, { type: 'done' }> | null = null;
+  let failure: Error | null = null;
+  let framesEncoded = 0;
+  let wake: (() => void) | null = null;
+  const notify = () => { wake?.(); wake = null; };
+
+  worker.onmessage = (event: MessageEvent<ExportWorkerResponse>) => {
+    const message = event.data;
+    if (message.type === 'ready') ready = message;
+    else if (message.type === 'frameEncoded') framesEncoded++;
+    else if (message.type === 'done') done = message;
+    else if (message.type === 'error') failure = new Error(message.message);
+    notify();
+  };
+  worker.onerror = (event) => {
+    failure = new Error(event.message || "The export worker stopped unexpectedly");
+    notify();
+  };
+  signal?.addEventListener("abort", notify);
+
+  const post = (request: ExportWorkerRequest, transfer: Transferable[] = []) => worker.postMessage(request, transfer);
+  const check = () => {
+    if (signal?.aborted) throw cancelledError();
+    if (failure) throw failure;
+  };
+  const waitUntil = async (condition: () => boolean) => {
+    check();
+    while (!condition()) {
+      await new Promise<void>(resolve => { wake = resolve; });
+      check();
     }
+  };
+
+  try {
+    // 1. Load sources
+    video = await loadVideo(sourceUrl);
+    const videoDuration = video.duration;
+    if (!Number.isFinite(videoDuration) || videoDuration <= 0) throw new Error("Could not determine the A-roll duration");
+
+    // Beats, captions and audio all keep their project times; only the window being rendered moves
+    const start = Math.min(videoDuration, Math.max(0, options.range?.start ?? 0));
+    const end = Math.min(videoDuration, Math.max(start, options.range?.end ?? videoDuration));
+    const duration = end - start;
+    if (duration <= 0) throw new Error("The export range is empty");
 
-    const renderFrame = () => {
-        if (mediaRecorder.state === 'inactive') return;
-
-        if (video.paused && !video.ended) {
-            requestAnimationFrame(renderFrame);
-            return;
-        }
-
-        const currentTime = video.currentTime;
-        // Avoid division by zero
-        if (video.duration > 0) {
-            onProgress(Math.min(0.99, currentTime / video.duration));
-        }
-
-        // Background
-        ctx.fillStyle = "#000";
-        ctx.fillRect(0, 0, width, height);
-
-        // Identify Active Beat
-        const currentBeat = beats.find(b => currentTime >= b.startTime && currentTime < b.endTime && b.isEnabled);
-        const isSplit = currentBeat && currentBeat.overlayType === OverlayType.SPLIT;
-        const splitHPercent = currentBeat?.bRollSettings?.height || 50;
-        const splitPixelH = height * (splitHPercent / 100);
-        const aRollOffsetY = currentBeat?.bRollSettings?.aRollOffsetY ?? 50;
-
-        // --- Draw A-Roll (Bottom Layer) ---
-        if (isSplit) {
-             // Split Mode: A-Roll at bottom
-             const aRollH = height - splitPixelH;
-             
-             // Apply Pan Logic manually for canvas
-             // We want to simulate object-position: 50% {aRollOffsetY}%
-             // This means we calculate the crop rectangle
-             
-             const videoRatio = video.videoWidth / video.videoHeight;
-             const targetRatio = width / aRollH;
-             
-             let sW, sH, sX, sY;
-             
-             if (videoRatio > targetRatio) {
-                 // Video is wider than target: Crop width (center)
-                 sH = video.videoHeight;
-                 sW = sH * targetRatio;
-                 sY = 0;
-                 sX = (video.videoWidth - sW) / 2;
-             } else {
-                 // Video is taller than target: Crop height (pan)
-                 sW = video.videoWidth;
-                 sH = sW / targetRatio;
-                 sX = 0;
-                 // Pan logic: 0% = top, 50% = center, 100% = bottom
-                 sY = (video.videoHeight - sH) * (aRollOffsetY / 100);
-             }
-             
-             ctx.drawImage(video, sX, sY, sW, sH, 0, splitPixelH, width, aRollH);
-             
-             // Divider
-             ctx.fillStyle = "#1f2937";
-             ctx.fillRect(0, splitPixelH - 2, width, 4);
-        } else {
-             // Full Mode: A-Roll Contained
-             drawContain(video, 0, 0, width, height);
-        }
-
-        // --- Draw B-Roll (Top Layer) ---
-        if (currentBeat && currentBeat.bRollImage) {
-            const img = imageCache[currentBeat.bRollImage];
-            if (img) {
-                ctx.save();
-                
-                // Define B-Roll Area
-                let areaX = 0, areaY = 0, areaW = width, areaH = height;
-                if (isSplit) {
-                    areaH = splitPixelH; // Top portion
-                }
-
-                // Clip
-                ctx.beginPath();
-                ctx.rect(areaX, areaY, areaW, areaH);
-                ctx.clip();
-
-                // Apply Transforms: Center -> Translate -> Scale
-                const centerX = areaX + areaW / 2;
-                const centerY = areaY + areaH / 2;
-                
-                // Pixel shift
-                const tx = (currentBeat.bRollSettings.x / 100) * areaW;
-                const ty = (currentBeat.bRollSettings.y / 100) * areaH;
-
-                ctx.translate(centerX + tx, centerY + ty);
-                ctx.scale(currentBeat.bRollSettings.scale, currentBeat.bRollSettings.scale);
-
-                // Draw Image Centered
-                let imgW = img.width;
-                let imgH = img.height;
-                const areaRatio = areaW / areaH;
-                const imgRatio = imgW / imgH;
-                
-                let renderW, renderH;
-
-                if (imgRatio > areaRatio) {
-                    renderH = areaH;
-                    renderW = areaH * imgRatio;
-                    if (renderW < areaW) {
-                         renderW = areaW;
-                         renderH = areaW / imgRatio;
-                    }
-                } else {
-                    renderW = areaW;
-                    renderH = areaW / imgRatio;
-                    if (renderH < areaH) {
-                        renderH = areaH;
-                        renderW = areaH * imgRatio;
-                    }
-                }
-
-                ctx.drawImage(img, -renderW/2, -renderH/2, renderW, renderH);
-                ctx.restore();
-            }
-        }
-
-        // Loop
-        if ('requestVideoFrameCallback' in video) {
-             (video as any).requestVideoFrameCallback(renderFrame);
-        } else {
-             requestAnimationFrame(renderFrame);
-        }
+    const [aRollAudio, images, clips] = await Promise.all([
+      decodeAudioTrack(sourceUrl, { start, end }, audioContext),
+      loadImageBitmaps(scene),
+      loadClipVideos(scene.beats)
+    ]);
+    clipVideos = clips;
+    check();
+    const audio = await mixClipAudio(aRollAudio, scene.beats, { start, end }, audioContext);
+    check();
+
+    // 2. Worker sets up the encoders and muxer and encodes the audio
+    post(
+      { type: 'start', scene, width, height, fps, format: requestedFormat, videoBitrate, audioBitrate, startTime: start, duration, audio, images },
+      [...(audio?.channels.map(c => c.buffer) ?? []), ...Object.values(images)]
+    );
+    await waitUntil(() => ready !== null);
+
+    // 3. Render Loop: seek + capture here, composite + encode in the worker
+    const totalFrames = Math.max(1, Math.round(duration * fps));
+    const startedAt = performance.now();
+    const report = () => {
+      const elapsed = (performance.now() - startedAt) / 1000;
+      onProgress({
+        progress: Math.min(0.99, framesEncoded / totalFrames),
+        frame: framesEncoded,
+        totalFrames,
+        etaSeconds: framesEncoded >= ETA_MIN_FRAMES ? (elapsed / framesEncoded) * (totalFrames - framesEncoded) : null
+      });
     };
 
-    if ('requestVideoFrameCallback' in video) {
-        (video as any).requestVideoFrameCallback(renderFrame);
-    } else {
-        requestAnimationFrame(renderFrame);
+    for (let i = 0; i < totalFrames; i++) {
+      await waitUntil(() => i - framesEncoded < MAX_FRAMES_IN_FLIGHT);
+      report();
+
+      const time = start + i / fps;
+      const timestamp = Math.round(i * 1e6 / fps);
+      await seekVideo(video, time);
+      const frame = video.readyState >= 2 ? new VideoFrame(video, { timestamp }) : null;
+
+      // Each on-screen clip is seeked to where its beat has got to; a beat without a player keeps its poster
+      const clipFrames: Record<string, VideoFrame> = {};
+      for (const beat of getVisibleClipBeats(scene.beats, time)) {
+        const clipVideo = clipVideos.get(beat.id);
+        if (!clipVideo) continue;
+        await seekVideo(clipVideo, getClipTime(beat.bRollClip!, time - beat.startTime));
+        if (clipVideo.readyState >= 2) clipFrames[beat.id] = new VideoFrame(clipVideo, { timestamp });
+      }
+      post({ type: 'frame', index: i, frame, clips: clipFrames }, [...(frame ? [frame] : []), ...Object.values(clipFrames)]);
     }
-  });
+
+    post({ type: 'finish' });
+    await waitUntil(() => done !== null);
+
+    const result = done!;
+    onProgress({ progress: 1, frame: totalFrames, totalFrames, etaSeconds: 0 });
+    return {
+      blob: new Blob([result.buffer], { type: EXPORT_FORMATS[result.format].mimeType }),
+      format: result.format,
+      hasAudio: result.hasAudio
+    };
+  } finally {
+    // Cleanup, also on cancel: stop the worker (and its encoders) and release the media
+    signal?.removeEventListener("abort", notify);
+    post({ type: 'cancel' });
+    worker.terminate();
+    audioContext.close().catch(() => {});
+    for (const media of [video, ...clipVideos.values()]) {
+      if (!media) continue;
+      media.removeAttribute("src");
+      media.load();
+      media.remove();
+    }
+  }
 }
@@ -0,0 +1,95 @@
+import { Beat, BeatSlide, BeatSlideshow, BeatTransition } from "../types";
+
+// Slideshows: a beat that steps through several images. Each slide is resolved into a plain beat (that
+// image, with the slide's framing) so the transition code can layer and morph slides exactly as it does
+// beats. Slide times are relative to the beat's start.
+
+export interface SlideSpan {
+  slide: BeatSlide;
+  start: number; // seconds from the beat's start
+  end: number;
+}
+
+export interface ActiveSlide {
+  current: Beat;
+  previous: Beat | null; // The slide before, while one is on screen to transition from
+  elapsed: number; // seconds since the current slide began
+}
+
+export const isSlideshow = (beat: Beat | null) => (beat?.slideshow?.slides.length ?? 0) > 0;
+
+// The beat's current image first, then its other options
+export const createSlideshow = (beat: Beat, transition?: BeatTransition): BeatSlideshow => {
+  const images = [...new Set([beat.bRollImage, ...(beat.bRollOptions ?? [])].filter(Boolean) as string[])];
+  return { slides: images.map(image => ({ image })), transition };
+};
+
+// Fixed durations first; slides without one split the rest of the beat. Slides that would start after
+// the beat ends get an empty span and never show
+export const getSlideSpans = (beat: Beat): SlideSpan[] => {
+  const slides = beat.slideshow?.slides ?? [];
+  const length = beat.endTime - beat.startTime;
+  const fixed = slides.reduce((sum, slide) => sum + (slide.duration ?? 0), 0);
+  const autoCount = slides.filter(slide => slide.duration === undefined).length;
+  const share = autoCount > 0 ? Math.max(0, length - fixed) / autoCount : 0;
+
+  let start = 0;
+  return slides.map(slide => {
+    const end = Math.min(length, start + (slide.duration ?? share));
+    const span = { slide, start: Math.min(start, length), end };
+    start += slide.duration ?? share;
+    return span;
+  });
+};
+
+// The beat as it looks while showing one slide
+const getSlideBeat = (beat: Beat, slide: BeatSlide): Beat => ({
+  ...beat,
+  bRollImage: slide.image,
+  bRollClip: undefined,
+  bRollSettings: slide.bRollSettings ? { ...beat.bRollSettings, ...slide.bRollSettings } : beat.bRollSettings,
+  keyframes: slide.bRollSettings ? undefined : beat.keyframes,
+  slideshow: undefined
+});
+
+// The slide on screen at `time`. Before the beat starts (transitioning in) that's the first slide; after
+// its last slide ends (or the beat is playing out) the last one holds
+export const getActiveSlide = (beat: Beat, time: number): ActiveSlide | null => {
+  const spans = getSlideSpans(beat).filter(span => span.end > span.start);
+  if (spans.length === 0) return null;
+
+  const local = time - beat.startTime;
+  const found = spans.findIndex(span => local < span.end);
+  const index = found === -1 ? spans.length - 1 : found;
+  return {
+    current: getSlideBeat(beat, spans[index].slide),
+    previous: index > 0 ? getSlideBeat(beat, spans[index - 1].slide) : null,
+    elapsed: Math.max(0, local - spans[index].start)
+  };
+};
+
+// Fixed slide durations stretched or squeezed by `factor`, for a beat whose length changed
+export const scaleSlideshow = (slideshow: BeatSlideshow, factor: number): BeatSlideshow => ({
+  ...slideshow,
+  slides: slideshow.slides.map(slide => slide.duration === undefined ? slide : { ...slide, duration: Math.max(0.1, Math.round(slide.duration * factor * 10) / 10) })
+});
+
+// The slideshow with one slide's fields replaced; undefined values clear them
+export const updateSlide = (slideshow: BeatSlideshow, index: number, updates: Partial<BeatSlide>): BeatSlideshow => ({
+  ...slideshow,
+  slides: slideshow.slides.map((slide, i) => i === index ? { ...slide, ...updates } : slide)
+});
+
+export const moveSlide = (slideshow: BeatSlideshow, index: number, offset: number): BeatSlideshow => {
+  const target = index + offset;
+  if (target < 0 || target >= slideshow.slides.length) return slideshow;
+  const slides = [...slideshow.slides];
+  [slides[index], slides[target]] = [slides[target], slides[index]];
+  return { ...slideshow, slides };
+};
+
+// Removing the last slide ends the slideshow
+export const removeSlide = (slideshow: BeatSlideshow, index: number): BeatSlideshow | undefined => {
+  const slides = slideshow.slides.filter((_, i) => i !== index);
+  return slides.length > 0 ? { ...slideshow, slides } : undefined;
+};
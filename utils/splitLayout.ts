@@ -0,0 +1,73 @@
+import { BrandKit, SplitOrder, SplitOrientation, SplitSettings } from "../types";
+import { getActiveBrandKit } from "./brandKit";
+
+// Geometry of a split frame: the B-roll takes `share` of the frame along the split axis, the A-roll the
+// rest, and a gutter line covers the seam. Order decides which of the two comes first (top or left).
+
+export const SPLIT_ORIENTATIONS: { value: SplitOrientation; label: string }[] = [
+  { value: 'stacked', label: 'Stacked' },
+  { value: 'side-by-side', label: 'Side by side' }
+];
+
+export const SPLIT_ORDERS: { value: SplitOrder; label: string }[] = [
+  { value: 'b-roll-first', label: 'B-roll first' },
+  { value: 'a-roll-first', label: 'A-roll first' }
+];
+
+export const GUTTER_WIDTH_LIMITS = { min: 0, max: 40 };
+
+const REFERENCE_SHORT_EDGE = 1080;
+
+const DEFAULT_GUTTER_COLOR = '#1f2937';
+
+// What every split looked like before it was configurable
+export const DEFAULT_SPLIT_SETTINGS: SplitSettings = {
+  orientation: 'stacked',
+  order: 'b-roll-first',
+  gutterWidth: 4
+};
+
+// A gutter's own colour wins; one without follows the brand kit while it is on
+export const getGutterColor = (settings: SplitSettings, brandKit?: BrandKit) =>
+  settings.gutterColor ?? getActiveBrandKit(brandKit)?.primaryColor ?? DEFAULT_GUTTER_COLOR;
+
+export const createSplitSettings = (): SplitSettings => ({ ...DEFAULT_SPLIT_SETTINGS });
+
+export interface SplitRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SplitRects {
+  bRoll: SplitRect;
+  aRoll: SplitRect;
+  gutter: SplitRect | null; // null when either side is empty or the gutter has no width
+}
+
+// `share` is the B-roll fraction 0 to 1
+export const getSplitRects = (width: number, height: number, share: number, settings: SplitSettings): SplitRects => {
+  const sideBySide = settings.orientation === 'side-by-side';
+  const length = sideBySide ? width : height;
+  const bRollLength = length * share;
+  const seam = settings.order === 'b-roll-first' ? bRollLength : length - bRollLength;
+  const bRollStart = settings.order === 'b-roll-first' ? 0 : seam;
+  const aRollStart = settings.order === 'b-roll-first' ? seam : 0;
+  const aRollLength = length - bRollLength;
+
+  const span = (start: number, size: number): SplitRect => sideBySide
+    ? { x: start, y: 0, width: size, height }
+    : { x: 0, y: start, width, height: size };
+
+  const thickness = settings.gutterWidth > 0
+    ? Math.max(1, Math.round(Math.min(width, height) * settings.gutterWidth / REFERENCE_SHORT_EDGE))
+    : 0;
+  const hasSeam = bRollLength > 0 && aRollLength > 0 && thickness > 0;
+
+  return {
+    bRoll: span(bRollStart, bRollLength),
+    aRoll: span(aRollStart, aRollLength),
+    gutter: hasSeam ? span(seam - thickness / 2, thickness) : null
+  };
+};
@@ -0,0 +1,247 @@
+import { Beat, TextAnimation, TextOverlay, TextOverlayKind } from "../types";
+import { applyEasing, clamp01, easeOutBack } from "./easing";
+import { CAPTION_FONTS } from "./captions";
+
+// Text overlays (title cards, lower thirds, call-to-action end cards, stat callouts) drawn onto a 2D
+// canvas by the shared compositor, above the B-roll and below the captions. Each one is either attached
+// to a beat, and then shows exactly while that beat does, or free with its own start and end time.
+
+type Canvas2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export const TEXT_OVERLAY_FONTS = CAPTION_FONTS;
+
+export const TEXT_OVERLAY_KINDS: { value: TextOverlayKind; label: string }[] = [
+  { value: 'title', label: 'Title' },
+  { value: 'lower-third', label: 'Lower Third' },
+  { value: 'cta', label: 'Call to Action' },
+  { value: 'stat', label: 'Stat' }
+];
+
+export const TEXT_ANIMATIONS: { value: TextAnimation; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'fade', label: 'Fade' },
+  { value: 'slide-up', label: 'Slide' },
+  { value: 'pop', label: 'Pop' },
+  { value: 'wipe', label: 'Wipe' },
+  { value: 'count-up', label: 'Count' }
+];
+
+const INTRO_SECONDS = 0.4;
+const OUTRO_SECONDS = 0.3;
+const COUNT_UP_SECONDS = 1.2;
+const FREE_OVERLAY_SECONDS = 3;
+const SUBTEXT_SCALE = 0.45; // of the main font size
+const TEXT_SHADOW = "rgba(0, 0, 0, 0.5)";
+const LOWER_THIRD_BOX = "rgba(0, 0, 0, 0.55)";
+
+type OverlayPreset = Pick<TextOverlay, 'text' | 'subtext' | 'x' | 'y' | 'fontSize' | 'animation'>;
+
+const PRESETS: Record<TextOverlayKind, OverlayPreset> = {
+  'title': { text: 'Your Title Here', subtext: 'A short subtitle', x: 50, y: 40, fontSize: 8, animation: 'pop' },
+  'lower-third': { text: 'Jane Doe', subtext: 'Founder, Acme', x: 6, y: 76, fontSize: 4.5, animation: 'slide-up' },
+  'cta': { text: 'Want more like this?', subtext: 'Follow', x: 50, y: 50, fontSize: 6, animation: 'pop' },
+  'stat': { text: '87%', subtext: 'of viewers watch with the sound off', x: 50, y: 45, fontSize: 14, animation: 'count-up' }
+};
+
+// Attached to the beat under the playhead when there is one, otherwise free for a few seconds from it
+export const createTextOverlay = (kind: TextOverlayKind, time: number, beat?: Beat | null): TextOverlay => ({
+  id: `overlay-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+  kind,
+  ...PRESETS[kind],
+  beatId: beat?.id ?? null,
+  startTime: beat?.startTime ?? time,
+  endTime: beat?.endTime ?? time + FREE_OVERLAY_SECONDS,
+  fontFamily: 'Inter',
+  textColor: '#ffffff',
+  accentColor: '#6366f1'
+});
+
+// An overlay whose beat was deleted falls back to the times it last had
+export const getOverlayTiming = (overlay: TextOverlay, beats: Beat[]) => {
+  const beat = overlay.beatId ? beats.find(b => b.id === overlay.beatId) : undefined;
+  return beat ? { start: beat.startTime, end: beat.endTime } : { start: overlay.startTime, end: overlay.endTime };
+};
+
+export const getTextOverlayFont = (fontFamily: string, fontPx: number) => `700 ${fontPx}px "${fontFamily}", sans-serif`;
+
+interface AnimationState {
+  alpha: number;
+  offsetY: number; // multiple of the font size
+  scale: number;
+  reveal: number; // 0 to 1 of the overlay's width, left to right
+  count: number; // 0 to 1 of the stat's value
+}
+
+const getAnimationState = (animation: TextAnimation, local: number, duration: number): AnimationState => {
+  const state = { alpha: 1, offsetY: 0, scale: 1, reveal: 1, count: 1 };
+  if (animation === 'none') return state;
+
+  const intro = applyEasing('ease-out', local / INTRO_SECONDS);
+  const outro = clamp01((duration - local) / OUTRO_SECONDS);
+  state.alpha = Math.min(intro, outro);
+
+  switch (animation) {
+    case 'slide-up':
+      state.offsetY = 1 - intro;
+      break;
+    case 'pop':
+      state.scale = 0.6 + 0.4 * easeOutBack(clamp01(local / INTRO_SECONDS));
+      break;
+    case 'wipe':
+      state.alpha = outro;
+      state.reveal = applyEasing('ease-in-out', local / INTRO_SECONDS);
+      break;
+    case 'count-up':
+      state.count = applyEasing('ease-out', local / COUNT_UP_SECONDS);
+      break;
+  }
+  return state;
+};
+
+// "87%" at 0.5 is "44%"; the first number counts, keeping its decimals and thousands separators
+const countUp = (text: string, progress: number) => {
+  if (progress >= 1) return text;
+  return text.replace(/\d[\d,]*(\.\d+)?/, (match, fraction?: string) => {
+    const value = parseFloat(match.replace(/,/g, "")) * progress;
+    const decimals = fraction ? fraction.length - 1 : 0;
+    return value.toLocaleString("en-US", {
+      minimumFractionDigits: decimals,
+      maximumFractionDigits: decimals,
+      useGrouping: match.includes(",")
+    });
+  });
+};
+
+interface Box {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Each kind draws itself around the anchor and returns its bounds (used to clip the wipe)
+const measureOverlay = (ctx: Canvas2D, overlay: TextOverlay, text: string, fontPx: number): Box => {
+  const subPx = fontPx * SUBTEXT_SCALE;
+  ctx.font = getTextOverlayFont(overlay.fontFamily, fontPx);
+  const textWidth = ctx.measureText(text).width;
+  ctx.font = getTextOverlayFont(overlay.fontFamily, subPx);
+  const subWidth = overlay.subtext ? ctx.measureText(overlay.subtext).width : 0;
+  const pad = fontPx * 0.4;
+
+  switch (overlay.kind) {
+    case 'lower-third': {
+      const width = Math.max(textWidth, subWidth) + pad * 2 + fontPx * 0.15;
+      const height = fontPx * 1.2 + (overlay.subtext ? subPx * 1.4 : 0) + pad;
+      return { left: 0, top: -height / 2, width, height };
+    }
+    case 'cta': {
+      const buttonHeight = overlay.subtext ? subPx * 2.2 : 0;
+      const width = Math.max(textWidth, subWidth + subPx * 3);
+      const height = fontPx * 1.2 + (overlay.subtext ? fontPx * 0.4 + buttonHeight : 0);
+      return { left: -width / 2, top: -height / 2, width, height };
+    }
+    default: {
+      const width = Math.max(textWidth, subWidth);
+      const height = fontPx * 1.2 + (overlay.subtext ? subPx * 1.6 : 0) + (overlay.kind === 'title' ? fontPx * 0.25 : 0);
+      return { left: -width / 2, top: -height / 2, width, height };
+    }
+  }
+};
+
+const drawOverlayBody = (ctx: Canvas2D, overlay: TextOverlay, text: string, fontPx: number, box: Box) => {
+  const subPx = fontPx * SUBTEXT_SCALE;
+  const pad = fontPx * 0.4;
+  ctx.textBaseline = "middle";
+
+  if (overlay.kind === 'lower-third') {
+    const bar = fontPx * 0.15;
+    ctx.fillStyle = LOWER_THIRD_BOX;
+    ctx.fillRect(box.left, box.top, box.width, box.height);
+    ctx.fillStyle = overlay.accentColor;
+    ctx.fillRect(box.left, box.top, bar, box.height);
+
+    ctx.textAlign = "left";
+    ctx.fillStyle = overlay.textColor;
+    ctx.font = getTextOverlayFont(overlay.fontFamily, fontPx);
+    ctx.fillText(text, box.left + bar + pad, box.top + pad / 2 + fontPx * 0.6);
+    if (overlay.subtext) {
+      ctx.globalAlpha *= 0.8;
+      ctx.font = getTextOverlayFont(overlay.fontFamily, subPx);
+      ctx.fillText(overlay.subtext, box.left + bar + pad, box.top + pad / 2 + fontPx * 1.2 + subPx * 0.7);
+    }
+    return;
+  }
+
+  ctx.textAlign = "center";
+  ctx.shadowColor = TEXT_SHADOW;
+  ctx.shadowBlur = fontPx * 0.15;
+
+  const textY = box.top + fontPx * 0.6;
+  ctx.font = getTextOverlayFont(overlay.fontFamily, fontPx);
+  ctx.fillStyle = overlay.kind === 'stat' ? overlay.accentColor : overlay.textColor;
+  ctx.fillText(text, 0, textY);
+
+  if (overlay.kind === 'title') {
+    // Accent underline between the title and subtitle
+    const barWidth = Math.min(box.width, fontPx * 2);
+    ctx.fillStyle = overlay.accentColor;
+    ctx.fillRect(-barWidth / 2, box.top + fontPx * 1.2, barWidth, fontPx * 0.08);
+  }
+  if (!overlay.subtext) return;
+
+  ctx.font = getTextOverlayFont(overlay.fontFamily, subPx);
+  if (overlay.kind === 'cta') {
+    // Subtext as a pill-shaped button under the call to action
+    const buttonWidth = ctx.measureText(overlay.subtext).width + subPx * 3;
+    const buttonHeight = subPx * 2.2;
+    const buttonTop = box.top + fontPx * 1.6;
+    ctx.fillStyle = overlay.accentColor;
+    ctx.beginPath();
+    ctx.roundRect(-buttonWidth / 2, buttonTop, buttonWidth, buttonHeight, buttonHeight / 2);
+    ctx.fill();
+    ctx.shadowColor = "transparent";
+    ctx.fillStyle = overlay.textColor;
+    ctx.fillText(overlay.subtext, 0, buttonTop + buttonHeight / 2);
+    return;
+  }
+
+  const subY = box.top + fontPx * 1.2 + (overlay.kind === 'title' ? fontPx * 0.25 : 0) + subPx * 0.8;
+  ctx.fillStyle = overlay.textColor;
+  ctx.fillText(overlay.subtext, 0, subY);
+};
+
+export const drawTextOverlays = (
+  ctx: Canvas2D,
+  width: number,
+  height: number,
+  overlays: TextOverlay[],
+  beats: Beat[],
+  time: number
+) => {
+  const shortEdge = Math.min(width, height);
+
+  for (const overlay of overlays) {
+    const { start, end } = getOverlayTiming(overlay, beats);
+    if (time < start || time >= end || !overlay.text.trim()) continue;
+
+    const anim = getAnimationState(overlay.animation, time - start, end - start);
+    if (anim.alpha <= 0 || anim.reveal <= 0) continue;
+
+    const fontPx = shortEdge * overlay.fontSize / 100;
+    const text = overlay.kind === 'stat' ? countUp(overlay.text, anim.count) : overlay.text;
+    // Sized for the final text so a counting stat doesn't shift as its digits change
+    const box = measureOverlay(ctx, overlay, overlay.text, fontPx);
+
+    ctx.save();
+    ctx.globalAlpha = anim.alpha;
+    ctx.translate(width * overlay.x / 100, height * overlay.y / 100 + anim.offsetY * fontPx);
+    ctx.scale(anim.scale, anim.scale);
+    if (anim.reveal < 1) {
+      ctx.beginPath();
+      ctx.rect(box.left, box.top - fontPx, box.width * anim.reveal, box.height + fontPx * 2);
+      ctx.clip();
+    }
+    drawOverlayBody(ctx, overlay, text, fontPx, box);
+    ctx.restore();
+  }
+};
@@ -0,0 +1,82 @@
+import { Beat, ProjectState } from "../types";
+import { FrameSource, drawComposite, getVideoSource, loadSceneImages } from "./compositor";
+import { getOutputSize } from "./exportPresets";
+import { TRANSITION_DURATION_LIMITS } from "./transitions";
+
+// Project card thumbnails. They are stored alongside project summaries, so they must be self-contained
+// data URLs rather than session-only blob URLs.
+
+const POSTER_VIDEO_TIMEOUT_MS = 5000;
+
+// The poster is taken midway through this beat, clear of its intro transition on all but the shortest beats
+const getPosterBeat = (beats: Beat[]) => beats.find(b => b.isEnabled && b.bRollImage);
+
+// Changes whenever the poster would look different, so autosave only re-renders it then
+export const getPosterKey = (state: ProjectState): string | undefined => {
+  const beat = getPosterBeat(state.beats);
+  if (!beat) return undefined;
+  return JSON.stringify([state.aRollVideoUrl, state.layoutMode, state.captionSettings, state.textOverlays, state.styleSettings.brandKit, { ...beat, bRollOptions: undefined }]);
+};
+
+// One decoded A-roll frame, or null if the video can't be loaded in time
+const loadVideoFrame = async (url: string, time: number): Promise<{ video: HTMLVideoElement; source: FrameSource | null }> => {
+  const video = document.createElement("video");
+  video.crossOrigin = "anonymous";
+  video.muted = true;
+  video.preload = "auto";
+
+  const seeked = new Promise<void>((resolve) => {
+    video.onloadedmetadata = () => { video.currentTime = Math.min(time, video.duration || time); };
+    video.onseeked = () => resolve();
+    video.onerror = () => resolve();
+    setTimeout(resolve, POSTER_VIDEO_TIMEOUT_MS);
+  });
+  video.src = url;
+  await seeked;
+  return { video, source: getVideoSource(video) };
+};
+
+// Poster for project cards: the composited frame (A-roll, B-roll, captions) midway through the first
+// B-roll beat, drawn by the same compositor as the preview and export
+export async function createPosterThumbnail(state: ProjectState, maxSize = 240): Promise<string | undefined> {
+  const beat = getPosterBeat(state.beats);
+  if (!beat) return undefined;
+  const time = (beat.startTime + beat.endTime) / 2;
+  const scene = { ...state, brandKit: state.styleSettings.brandKit };
+
+  const output = getOutputSize(state.layoutMode, 1080);
+  const scale = maxSize / Math.max(output.width, output.height);
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(output.width * scale));
+  canvas.height = Math.max(1, Math.round(output.height * scale));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return undefined;
+
+  // Only beats that can be on screen at `time` (including one transitioning out) need their images
+  const nearby = state.beats.filter(b => b.startTime <= time && b.endTime >= time - TRANSITION_DURATION_LIMITS.max);
+  const [images, frame] = await Promise.all([
+    loadSceneImages({ beats: nearby, brandKit: scene.brandKit }),
+    state.aRollVideoUrl ? loadVideoFrame(state.aRollVideoUrl, time) : Promise.resolve(null)
+  ]);
+
+  const render = (aRoll: FrameSource | null) => {
+    drawComposite(ctx, canvas.width, canvas.height, scene, time, { aRoll, images });
+    return canvas.toDataURL("image/jpeg", 0.8);
+  };
+
+  try {
+    return render(frame?.source ?? null);
+  } catch {
+    // Tainted canvas (remote media without CORS): fall back to the B-roll alone, then give up
+    try {
+      return render(null);
+    } catch {
+      return undefined;
+    }
+  } finally {
+    if (frame) {
+      frame.video.removeAttribute("src");
+      frame.video.load();
+    }
+  }
+}
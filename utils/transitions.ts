@@ -0,0 +1,222 @@
+import { Beat, BeatTransition, OverlayType, PipSettings, SplitSettings, TransitionType } from "../types";
+import { applyEasing, lerp } from "./easing";
+import { BRollTransform, getBRollTransform } from "./keyframes";
+import { lerpPipSettings } from "./pip";
+import { DEFAULT_SPLIT_SETTINGS } from "./splitLayout";
+import { getActiveSlide, isSlideshow } from "./slideshow";
+import { isCollage } from "./collage";
+
+// Beat-to-beat transitions resolved into a plain description of one frame: how much of the frame the
+// B-roll takes, where the A-roll is cropped, and which B-roll layers are drawn with what opacity/offset/
+// scale/blur. The preview turns it into CSS and the export draws it on canvas, so both follow the same curves.
+//
+// A beat's transition plays from its start time, morphing whatever was on screen just before into it.
+// When a beat ends with nothing after it, its own transition plays it out over the A-roll.
+// Slideshow beats show their current slide, and morph between slides with the slideshow's transition.
+
+export const TRANSITION_TYPES: { value: TransitionType; label: string }[] = [
+  { value: 'cut', label: 'Cut' },
+  { value: 'crossfade', label: 'Fade' },
+  { value: 'slide', label: 'Slide' },
+  { value: 'zoom', label: 'Zoom' },
+  { value: 'whip', label: 'Whip' }
+];
+
+export const TRANSITION_DURATION_LIMITS = { min: 0.1, max: 2 };
+
+export const createBeatTransition = (type: TransitionType = 'crossfade'): BeatTransition => ({
+  type,
+  duration: 0.4,
+  easing: 'ease-in-out'
+});
+
+export interface BRollLayer {
+  beat: Beat;
+  transform: BRollTransform; // the beat's own (keyframed) position at this time
+  opacity: number;
+  offsetX: number; // fraction of the B-roll area, added to transform.x
+  offsetY: number;
+  scale: number; // multiplier on transform.scale
+  blur: number; // fraction of the B-roll area width
+}
+
+export interface PipFrame {
+  settings: PipSettings;
+  opacity: number;
+}
+
+export interface FrameLayout {
+  splitHeight: number | null; // percentage of the frame given to the B-roll along the split, null when the A-roll fills the frame
+  split: SplitSettings; // how the split is arranged, while splitHeight is set
+  aRollOffsetY: number; // percentage 0 to 100, the A-roll crop while split or inside the inset
+  layers: BRollLayer[]; // bottom to top, clipped to the B-roll area (its side of the split, or the whole frame)
+  pip: PipFrame | null; // A-roll inset drawn over the B-roll
+}
+
+interface ActiveTransition {
+  from: Beat | null;
+  to: Beat | null;
+  transition: BeatTransition;
+  progress: number; // 0 to 1, before easing
+}
+
+const EPSILON = 1e-4;
+const ZOOM_OUT_SCALE = 1.5;
+const ZOOM_IN_SCALE = 1.25;
+const WHIP_BLUR = 0.06;
+
+const findVisibleBeat = (beats: Beat[], time: number) =>
+  beats.find(b => b.isEnabled && time >= b.startTime && time < b.endTime) ?? null;
+
+const isSplit = (beat: Beat | null) => beat?.overlayType === OverlayType.SPLIT;
+
+export const hasBRoll = (beat: Beat | null): beat is Beat =>
+  !!beat?.bRollImage || !!beat?.bRollClip || isSlideshow(beat) || isCollage(beat);
+
+// An inset only makes sense over B-roll; without one the A-roll already fills the frame
+const hasPip = (beat: Beat | null): beat is Beat & { pipSettings: PipSettings } =>
+  beat?.overlayType === OverlayType.PIP && !!beat.pipSettings && hasBRoll(beat);
+
+// B-roll share of the frame: nothing without a beat, everything for a full-frame overlay
+const getAreaHeight = (beat: Beat | null) => {
+  if (!beat) return 0;
+  return isSplit(beat) ? beat.bRollSettings.height : 100;
+};
+
+const isAnimated = (transition?: BeatTransition): transition is BeatTransition =>
+  !!transition && transition.type !== 'cut' && transition.duration > 0;
+
+const createLayer = (beat: Beat, time: number): BRollLayer => ({
+  beat,
+  transform: getBRollTransform(beat, time),
+  opacity: 1,
+  offsetX: 0,
+  offsetY: 0,
+  scale: 1,
+  blur: 0
+});
+
+// A collage takes the beat's slideshow's place rather than being part of each slide
+const showsSlides = (beat: Beat) => isSlideshow(beat) && !isCollage(beat);
+
+// The beat, or for a slideshow the slide it's showing
+const getShownBeat = (beat: Beat, time: number) => (showsSlides(beat) ? getActiveSlide(beat, time)?.current : null) ?? beat;
+
+// Layers of a beat on screen by itself; mid-way through a slide change, the two slides
+const getBeatLayers = (beat: Beat, time: number): BRollLayer[] => {
+  const slide = showsSlides(beat) ? getActiveSlide(beat, time) : null;
+  if (!slide) return [createLayer(beat, time)];
+  const transition = beat.slideshow?.transition;
+  if (!slide.previous || !isAnimated(transition) || slide.elapsed >= transition.duration) return [createLayer(slide.current, time)];
+  const progress = applyEasing(transition.easing, slide.elapsed / transition.duration);
+  return getTransitionLayers(transition.type, slide.previous, slide.current, progress, time);
+};
+
+const findTransition = (beats: Beat[], time: number): ActiveTransition | null => {
+  const current = findVisibleBeat(beats, time);
+  if (current) {
+    const transition = current.transition;
+    const elapsed = time - current.startTime;
+    if (!isAnimated(transition) || elapsed >= transition.duration) return null;
+    return {
+      from: findVisibleBeat(beats, current.startTime - EPSILON),
+      to: current,
+      transition,
+      progress: elapsed / transition.duration
+    };
+  }
+
+  // Nothing on screen: a beat that just ended may still be playing out
+  for (const beat of beats) {
+    const transition = beat.transition;
+    const elapsed = time - beat.endTime;
+    if (!beat.isEnabled || !isAnimated(transition) || elapsed < 0 || elapsed >= transition.duration) continue;
+    if (findVisibleBeat(beats, beat.endTime)) continue; // Handed over to the next beat instead
+    return { from: beat, to: null, transition, progress: elapsed / transition.duration };
+  }
+  return null;
+};
+
+const getTransitionLayers = (
+  type: TransitionType,
+  from: Beat | null,
+  to: Beat | null,
+  progress: number,
+  time: number
+): BRollLayer[] => {
+  const outgoing = hasBRoll(from) ? createLayer(getShownBeat(from, time), time) : null;
+  const incoming = hasBRoll(to) ? createLayer(getShownBeat(to, time), time) : null;
+
+  switch (type) {
+    case 'crossfade':
+      // Fade the new image in over the old one; with nothing coming in, fade the old one out
+      if (incoming) incoming.opacity = progress;
+      else if (outgoing) outgoing.opacity = 1 - progress;
+      break;
+    case 'slide':
+    case 'whip':
+      if (outgoing) outgoing.offsetX = -progress;
+      if (incoming) incoming.offsetX = 1 - progress;
+      if (type === 'whip') {
+        // Motion blur peaks mid-swipe
+        const blur = WHIP_BLUR * Math.sin(Math.PI * progress);
+        if (outgoing) outgoing.blur = blur;
+        if (incoming) incoming.blur = blur;
+      }
+      break;
+    case 'zoom':
+      if (outgoing) {
+        outgoing.scale = lerp(1, ZOOM_OUT_SCALE, progress);
+        outgoing.opacity = 1 - progress;
+      }
+      if (incoming) {
+        incoming.scale = lerp(ZOOM_IN_SCALE, 1, progress);
+        incoming.opacity = progress;
+      }
+      break;
+    case 'cut':
+      return incoming ? [incoming] : [];
+  }
+
+  return [outgoing, incoming].filter((layer): layer is BRollLayer => !!layer);
+};
+
+// Between two inset beats the inset moves; into or out of one it fades
+const getTransitionPip = (from: Beat | null, to: Beat | null, progress: number): PipFrame | null => {
+  if (hasPip(from) && hasPip(to)) return { settings: lerpPipSettings(from.pipSettings, to.pipSettings, progress), opacity: 1 };
+  if (hasPip(to)) return { settings: to.pipSettings, opacity: progress };
+  if (hasPip(from)) return { settings: from.pipSettings, opacity: 1 - progress };
+  return null;
+};
+
+export const getFrameLayout = (beats: Beat[], time: number): FrameLayout => {
+  const active = findTransition(beats, time);
+
+  if (!active) {
+    const beat = findVisibleBeat(beats, time);
+    return {
+      splitHeight: beat && isSplit(beat) ? beat.bRollSettings.height : null,
+      split: beat?.splitSettings ?? DEFAULT_SPLIT_SETTINGS,
+      aRollOffsetY: beat?.bRollSettings.aRollOffsetY ?? 50,
+      layers: hasBRoll(beat) ? getBeatLayers(beat, time) : [],
+      pip: hasPip(beat) ? { settings: beat.pipSettings, opacity: 1 } : null
+    };
+  }
+
+  const { from, to, transition } = active;
+  const progress = applyEasing(transition.easing, active.progress);
+
+  // Moving into or out of a split grows/shrinks the B-roll area; the A-roll crop follows the split side.
+  // Between two differently arranged splits the incoming arrangement applies from the start
+  const isSplitting = isSplit(from) || isSplit(to);
+  const fromOffset = (isSplit(from) ? from : to)?.bRollSettings.aRollOffsetY ?? 50;
+  const toOffset = (isSplit(to) ? to : from)?.bRollSettings.aRollOffsetY ?? 50;
+
+  return {
+    splitHeight: isSplitting ? lerp(getAreaHeight(from), getAreaHeight(to), progress) : null,
+    split: (isSplit(to) ? to : from)?.splitSettings ?? DEFAULT_SPLIT_SETTINGS,
+    aRollOffsetY: lerp(fromOffset, toOffset, progress),
+    layers: getTransitionLayers(transition.type, from, to, progress, time),
+    pip: getTransitionPip(from, to, progress)
+  };
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { createZip, readZip } from "./zipArchive";
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+describe("zipArchive", () => {
+  it("reads back every entry it writes", async () => {
+    const binary = Uint8Array.from({ length: 256 }, (_, i) => i);
+    const blob = createZip([
+      { name: "project.json", data: encode('{"schemaVersion":6}') },
+      { name: "media/clip-1.webm", data: binary },
+      { name: "media/empty.bin", data: new Uint8Array(0) },
+      { name: "notes/résumé-🎬.txt", data: encode("ünïcode") }
+    ]);
+
+    const entries = readZip(await blob.arrayBuffer());
+
+    expect([...entries.keys()]).toEqual(["project.json", "media/clip-1.webm", "media/empty.bin", "notes/résumé-🎬.txt"]);
+    expect(new TextDecoder().decode(entries.get("project.json"))).toBe('{"schemaVersion":6}');
+    expect(entries.get("media/clip-1.webm")).toEqual(binary);
+    expect(entries.get("media/empty.bin")?.length).toBe(0);
+    expect(new TextDecoder().decode(entries.get("notes/résumé-🎬.txt"))).toBe("ünïcode");
+  });
+
+  it("writes a standard CRC-32 for each entry", async () => {
+    const buffer = await createZip([{ name: "check.txt", data: encode("123456789") }]).arrayBuffer();
+    // Local file header: CRC-32 at offset 14
+    expect(new DataView(buffer).getUint32(14, true)).toBe(0xcbf43926);
+  });
+
+  it("reads an empty archive", async () => {
+    const entries = readZip(await createZip([]).arrayBuffer());
+    expect(entries.size).toBe(0);
+  });
+
+  it("rejects data that is not an archive", () => {
+    expect(() => readZip(encode('{"schemaVersion":6}').buffer as ArrayBuffer)).toThrow("missing end of central directory");
+  });
+
+  it("rejects compressed entries", async () => {
+    const buffer = await createZip([{ name: "a.txt", data: encode("a") }]).arrayBuffer();
+    const view = new DataView(buffer);
+    // First central directory entry starts right after the local header, name and data
+    const central = 30 + "a.txt".length + 1;
+    view.setUint16(central + 10, 8, true); // deflate
+    expect(() => readZip(buffer)).toThrow('Unsupported compression in archive entry "a.txt"');
+  });
+});
@@ -0,0 +1,153 @@
+// Minimal ZIP (store-only) writer and reader.
+// Media assets are already compressed (WebM/MP4/JPEG/PNG), so entries are stored uncompressed.
+// The output opens with any standard unzip tool; the reader only needs to understand our own archives.
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const LOCAL_HEADER_SIG = 0x04034b50;
+const CENTRAL_HEADER_SIG = 0x02014b50;
+const END_OF_CENTRAL_DIR_SIG = 0x06054b50;
+const UTF8_FLAG = 0x0800;
+const DOS_DATE_1980 = 0x21; // 1980-01-01, timestamps are not meaningful for bundles
+const MAX_ZIP32_SIZE = 0xffffffff;
+
+let crcTable: Uint32Array | null = null;
+
+const getCrcTable = () => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  return crcTable;
+};
+
+const crc32 = (data: Uint8Array): number => {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+export const createZip = (entries: ZipEntry[]): Blob => {
+  const encoder = new TextEncoder();
+  const parts: BlobPart[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const nameBytes = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+    const size = entry.data.length;
+
+    if (offset + size > MAX_ZIP32_SIZE) {
+      throw new Error("Project bundle exceeds the 4 GB archive limit");
+    }
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, LOCAL_HEADER_SIG, true);
+    local.setUint16(4, 20, true); // version needed
+    local.setUint16(6, UTF8_FLAG, true);
+    local.setUint16(8, 0, true); // method: store
+    local.setUint16(10, 0, true); // time
+    local.setUint16(12, DOS_DATE_1980, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, size, true);
+    local.setUint32(22, size, true);
+    local.setUint16(26, nameBytes.length, true);
+    local.setUint16(28, 0, true); // extra length
+
+    const central = new DataView(new ArrayBuffer(46 + nameBytes.length));
+    central.setUint32(0, CENTRAL_HEADER_SIG, true);
+    central.setUint16(4, 20, true); // version made by
+    central.setUint16(6, 20, true); // version needed
+    central.setUint16(8, UTF8_FLAG, true);
+    central.setUint16(10, 0, true);
+    central.setUint16(12, 0, true);
+    central.setUint16(14, DOS_DATE_1980, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, size, true);
+    central.setUint32(24, size, true);
+    central.setUint16(28, nameBytes.length, true);
+    central.setUint16(30, 0, true); // extra
+    central.setUint16(32, 0, true); // comment
+    central.setUint16(34, 0, true); // disk
+    central.setUint16(36, 0, true); // internal attrs
+    central.setUint32(38, 0, true); // external attrs
+    central.setUint32(42, offset, true);
+    const centralBytes = new Uint8Array(central.buffer);
+    centralBytes.set(nameBytes, 46);
+
+    parts.push(local.buffer, nameBytes, entry.data);
+    centralParts.push(centralBytes);
+    offset += 30 + nameBytes.length + size;
+  }
+
+  const centralSize = centralParts.reduce((acc, p) => acc + p.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, END_OF_CENTRAL_DIR_SIG, true);
+  end.setUint16(4, 0, true);
+  end.setUint16(6, 0, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+  end.setUint16(20, 0, true);
+
+  return new Blob([...parts, ...centralParts, end.buffer], { type: "application/zip" });
+};
+
+export const readZip = (buffer: ArrayBuffer): Map<string, Uint8Array> => {
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder();
+
+  // End-of-central-directory record sits at the end, followed by an optional comment (max 64 KB)
+  let endOffset = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIR_SIG) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset === -1) throw new Error("Not a valid archive (missing end of central directory)");
+
+  const entryCount = view.getUint16(endOffset + 10, true);
+  let cursor = view.getUint32(endOffset + 16, true);
+  const entries = new Map<string, Uint8Array>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(cursor, true) !== CENTRAL_HEADER_SIG) {
+      throw new Error("Corrupt archive (bad central directory entry)");
+    }
+    const method = view.getUint16(cursor + 10, true);
+    const compressedSize = view.getUint32(cursor + 20, true);
+    const nameLength = view.getUint16(cursor + 28, true);
+    const extraLength = view.getUint16(cursor + 30, true);
+    const commentLength = view.getUint16(cursor + 32, true);
+    const localOffset = view.getUint32(cursor + 42, true);
+    const name = decoder.decode(new Uint8Array(buffer, cursor + 46, nameLength));
+
+    if (method !== 0) {
+      throw new Error(`Unsupported compression in archive entry "${name}"`);
+    }
+
+    const localNameLength = view.getUint16(localOffset + 26, true);
+    const localExtraLength = view.getUint16(localOffset + 28, true);
+    const dataStart = localOffset + 30 + localNameLength + localExtraLength;
+    entries.set(name, new Uint8Array(buffer, dataStart, compressedSize));
+
+    cursor += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+};